@@ -3,6 +3,7 @@ module.exports = {
   roots: ['<rootDir>/test'],
   testMatch: ['**/*.test.ts'],
   transform: {
-    '^.+\\.tsx?$': 'ts-jest'
+    // Transpile only; `tsc --noEmit` type-checks the tests with the rest of the project
+    '^.+\\.tsx?$': ['ts-jest', { isolatedModules: true }]
   }
 };
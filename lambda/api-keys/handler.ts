@@ -0,0 +1,258 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { APIGateway } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { EndpointConfig, Principal, createResponse, createErrorResponse, createRouter, getPrincipal } from '../utils/proxy';
+
+// Initialize API Gateway client
+const apiGateway = new APIGateway();
+
+// Constants
+// Tier plans are named '<prefix><tier>', e.g. 'DevPortalApiStack-basic'
+const USAGE_PLAN_NAME_PREFIX = process.env.USAGE_PLAN_NAME_PREFIX!;
+// Self-service keys are issued on this tier; other tiers are assigned by operators
+const DEFAULT_API_KEY_TIER = process.env.DEFAULT_API_KEY_TIER || 'basic';
+const MAX_API_KEYS_PER_CALLER = parseInt(process.env.MAX_API_KEYS_PER_CALLER || '5', 10);
+const MAX_KEY_NAME_LENGTH = 64;
+
+// Types
+interface CreateApiKeyRequest {
+  name?: string;
+}
+
+// Utility functions
+// Key names start with a hash of the subject, so a caller's keys can be listed by name prefix
+const ownerPrefix = (principal: Principal): string =>
+  `portal-${createHash('sha256').update(principal.id).digest('hex').slice(0, 24)}-`;
+
+const getTierName = (plan: APIGateway.UsagePlan): string | null =>
+  plan.name?.startsWith(USAGE_PLAN_NAME_PREFIX) ? plan.name.slice(USAGE_PLAN_NAME_PREFIX.length) : null;
+
+// Plan ids only change on redeploys that replace a plan, so they are looked up once per container
+let usagePlanIds: Promise<{ [tier: string]: string }> | null = null;
+
+const getUsagePlanId = async (tier: string): Promise<string | undefined> => {
+  usagePlanIds = usagePlanIds || (async () => {
+    const ids: { [tier: string]: string } = {};
+    let position: string | undefined;
+    do {
+      const page = await apiGateway.getUsagePlans({ limit: 500, position }).promise();
+      (page.items || []).forEach(plan => {
+        const name = getTierName(plan);
+        if (name && plan.id) ids[name] = plan.id;
+      });
+      position = page.position;
+    } while (position);
+    return ids;
+  })().catch(error => {
+    usagePlanIds = null;
+    throw error;
+  });
+  return (await usagePlanIds)[tier];
+};
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// The portal's own principal is only known when the request authorizer verified the token
+const requirePrincipal = (event: APIGatewayProxyEvent): Principal | APIGatewayProxyResult =>
+  getPrincipal(event) || createErrorResponse(403, {
+    error: 'API key management requires a verified caller',
+    message: 'Enable the request authorizer (AUTH_JWKS_URL) for this stage'
+  });
+
+const isPrincipal = (value: Principal | APIGatewayProxyResult): value is Principal => 'id' in value;
+
+const listOwnedKeys = async (principal: Principal): Promise<APIGateway.ApiKey[]> => {
+  const keys: APIGateway.ApiKey[] = [];
+  let position: string | undefined;
+  do {
+    const page = await apiGateway.getApiKeys({
+      nameQuery: ownerPrefix(principal),
+      includeValues: false,
+      limit: 500,
+      position
+    }).promise();
+    keys.push(...(page.items || []));
+    position = page.position;
+  } while (position);
+
+  // The name prefix narrows the listing; customerId is what proves ownership
+  return keys.filter(key => key.customerId === principal.id);
+};
+
+/**
+ * Usage of a key in the current calendar month, which is the period of every
+ * plan's quota, together with the tier and limits of the plan it belongs to.
+ */
+const getKeyUsage = async (keyId: string) => {
+  const plans = await apiGateway.getUsagePlans({ keyId }).promise();
+  const plan = plans.items?.[0];
+  if (!plan?.id) {
+    return { tier: null, throttle: null, quota: null, used: 0, remaining: null };
+  }
+
+  const now = new Date();
+  const usage = await apiGateway.getUsage({
+    usagePlanId: plan.id,
+    keyId,
+    startDate: toIsoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))),
+    endDate: toIsoDate(now)
+  }).promise();
+
+  // Daily entries of [used, remaining]; remaining is running, so the last entry is current
+  const days = usage.items?.[keyId] || [];
+  return {
+    tier: getTierName(plan),
+    throttle: plan.throttle
+      ? { rate_limit: plan.throttle.rateLimit ?? null, burst_limit: plan.throttle.burstLimit ?? null }
+      : null,
+    quota: plan.quota
+      ? { limit: plan.quota.limit ?? null, period: plan.quota.period ?? null }
+      : null,
+    used: days.reduce((total, day) => total + (day[0] || 0), 0),
+    remaining: days.length > 0 ? days[days.length - 1][1] : plan.quota?.limit ?? null
+  };
+};
+
+const toKeyView = (key: APIGateway.ApiKey, principal: Principal) => ({
+  id: key.id,
+  name: key.name?.slice(ownerPrefix(principal).length) || null,
+  enabled: key.enabled ?? false,
+  created_at: key.createdDate ? new Date(key.createdDate).toISOString() : null
+});
+
+// Endpoint handlers
+const listApiKeys = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const principal = requirePrincipal(event);
+  if (!isPrincipal(principal)) return principal;
+
+  const keys = await listOwnedKeys(principal);
+  const data = await Promise.all(keys.map(async key => ({
+    ...toKeyView(key, principal),
+    usage: await getKeyUsage(key.id!)
+  })));
+
+  return createResponse(200, {
+    data,
+    meta: {
+      status_code: 200,
+      total_count: data.length,
+      max_keys: MAX_API_KEYS_PER_CALLER
+    }
+  });
+};
+
+const createApiKey = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const principal = requirePrincipal(event);
+  if (!isPrincipal(principal)) return principal;
+
+  let request: CreateApiKeyRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch (error) {
+    return createErrorResponse(400, { error: 'Request body must be valid JSON' });
+  }
+
+  const name = (request.name || 'default').trim();
+  if (!/^[\w .-]+$/.test(name) || name.length > MAX_KEY_NAME_LENGTH) {
+    return createErrorResponse(400, {
+      error: 'Invalid name',
+      message: `name must be at most ${MAX_KEY_NAME_LENGTH} letters, digits, spaces, dots, dashes or underscores`
+    });
+  }
+
+  const usagePlanId = await getUsagePlanId(DEFAULT_API_KEY_TIER);
+  if (!usagePlanId) {
+    return createErrorResponse(503, { error: 'API key issuance is not configured' });
+  }
+
+  const existing = await listOwnedKeys(principal);
+  if (existing.length >= MAX_API_KEYS_PER_CALLER) {
+    return createErrorResponse(409, {
+      error: 'API key limit reached',
+      message: `Each caller may hold at most ${MAX_API_KEYS_PER_CALLER} keys; delete one before creating another`
+    });
+  }
+
+  const key = await apiGateway.createApiKey({
+    name: `${ownerPrefix(principal)}${name}`,
+    customerId: principal.id,
+    enabled: true,
+    generateDistinctId: true
+  }).promise();
+
+  try {
+    await apiGateway.createUsagePlanKey({
+      usagePlanId,
+      keyId: key.id!,
+      keyType: 'API_KEY'
+    }).promise();
+  } catch (error) {
+    // A key outside every usage plan is rejected by API Gateway anyway; do not leave it behind
+    await apiGateway.deleteApiKey({ apiKey: key.id! }).promise();
+    throw error;
+  }
+
+  // The value is only ever returned here
+  return createResponse(201, {
+    data: {
+      ...toKeyView(key, principal),
+      value: key.value,
+      tier: DEFAULT_API_KEY_TIER
+    },
+    meta: { status_code: 201 }
+  });
+};
+
+const deleteApiKey = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const principal = requirePrincipal(event);
+  if (!isPrincipal(principal)) return principal;
+
+  const id = event.pathParameters?.id;
+  if (!id) {
+    return createErrorResponse(400, { error: 'ID is required' });
+  }
+
+  const keys = await listOwnedKeys(principal);
+  if (!keys.some(key => key.id === id)) {
+    return createErrorResponse(404, { error: 'API key not found' });
+  }
+
+  await apiGateway.deleteApiKey({ apiKey: id }).promise();
+  return createResponse(200, {
+    data: { id, deleted: true },
+    meta: { status_code: 200 }
+  });
+};
+
+// Route configuration
+const endpoints: EndpointConfig[] = [
+  {
+    method: 'GET',
+    path: '/account/api-keys',
+    handler: listApiKeys
+  },
+  {
+    method: 'POST',
+    path: '/account/api-keys',
+    handler: createApiKey,
+    audit: true
+  },
+  {
+    method: 'DELETE',
+    path: '/account/api-keys/{id}',
+    handler: deleteApiKey,
+    audit: true
+  }
+];
+
+// Main handler
+export const handler = createRouter(endpoints, 'api keys handler');
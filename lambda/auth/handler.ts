@@ -2,6 +2,17 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import axios from 'axios';
 import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
+import { decodeRequestBody } from '../utils/proxy';
+import {
+  SESSION_MODE_ENABLED,
+  buildSessionCookie,
+  buildClearedSessionCookie,
+  createSession,
+  deleteSession,
+  getSessionId,
+  hasCsrfHeader,
+  resolveSessionTokens
+} from '../utils/session';
 
 // Define API URLs
 const API_URLS = {
@@ -9,17 +20,64 @@ const API_URLS = {
   refreshToken: 'https://account-service-api-public.polestar-production.com/v1/refresh-access-token'
 } as const;
 
+const jsonResponse = (
+  statusCode: number,
+  body: any,
+  origin?: string,
+  headers: { [key: string]: string } = {}
+): APIGatewayProxyResult => ({
+  statusCode,
+  headers: {
+    'Content-Type': 'application/json',
+    ...getCorsHeaders(origin),
+    ...headers
+  },
+  body: JSON.stringify(body)
+});
+
+// Ends the session, if any, and clears the cookie; in header mode there is nothing to end server-side
+const signOut = async (event: APIGatewayProxyEvent, origin?: string): Promise<APIGatewayProxyResult> => {
+  const sessionId = getSessionId(event);
+  if (SESSION_MODE_ENABLED && sessionId) {
+    await deleteSession(sessionId);
+  }
+  return jsonResponse(200, { signed_out: true }, origin, { 'Set-Cookie': buildClearedSessionCookie() });
+};
+
+// Session mode refresh: rotates the session's tokens without exposing them to the browser
+const refreshSession = async (event: APIGatewayProxyEvent, origin?: string): Promise<APIGatewayProxyResult> => {
+  const tokens = await resolveSessionTokens(event, { forceRefresh: true });
+  if (!tokens) {
+    return jsonResponse(401, { error: 'No active session' }, origin, { 'Set-Cookie': buildClearedSessionCookie() });
+  }
+  return jsonResponse(200, { refreshed: true }, origin);
+};
+
 export const handler = async (
     event: APIGatewayProxyEvent
   ): Promise<APIGatewayProxyResult> => {
+    const origin = event.headers?.['origin'] || event.headers?.['Origin'];
+
     // Handle OPTIONS requests for CORS preflight
     if (event.httpMethod === 'OPTIONS') {
-      return createOptionsResponse();
+      return createOptionsResponse(origin);
     }
 
     try {
-      // Determine which endpoint to call based on the path
+      // Sign-out and session refresh act on the cookie alone, so they need the same CSRF header as proxied routes
       const isSignin = event.path.endsWith('/signin');
+      if (!isSignin && SESSION_MODE_ENABLED && getSessionId(event) && !hasCsrfHeader(event)) {
+        return jsonResponse(403, { error: 'X-Requested-With header is required for session requests' }, origin);
+      }
+
+      if (event.path.endsWith('/signout')) {
+        return await signOut(event, origin);
+      }
+
+      // Determine which endpoint to call based on the path
+      if (!isSignin && SESSION_MODE_ENABLED && getSessionId(event)) {
+        return await refreshSession(event, origin);
+      }
       const targetUrl = isSignin ? API_URLS.signin : API_URLS.refreshToken;
   
       // Get refresh token from headers if it exists
@@ -29,7 +87,7 @@ export const handler = async (
       const response = await axios({
         method: event.httpMethod,
         url: targetUrl,
-        data: JSON.parse(event.body || '{}'),
+        data: JSON.parse(decodeRequestBody(event).body || '{}'),
         headers: {
           ...(refreshToken && { 'refresh-token': refreshToken })
         }
@@ -38,8 +96,22 @@ export const handler = async (
       // Prepare response headers
       const headers: { [key: string]: string } = {
         'Content-Type': 'application/json',
-        ...getCorsHeaders()
+        ...getCorsHeaders(origin)
       };
+
+      // In session mode the tokens stay server-side and the browser only gets an httpOnly session cookie
+      if (SESSION_MODE_ENABLED && isSignin && response.headers['access-token'] && response.headers['refresh-token']) {
+        const sessionId = await createSession({
+          access_token: response.headers['access-token'],
+          refresh_token: response.headers['refresh-token']
+        });
+        headers['Set-Cookie'] = buildSessionCookie(sessionId);
+        return {
+          statusCode: response.status,
+          headers,
+          body: JSON.stringify(response.data)
+        };
+      }
   
       // Forward tokens if they exist in the response
       if (response.headers['access-token']) {
@@ -63,7 +135,7 @@ export const handler = async (
           statusCode: error.response.status,
           headers: {
             'Content-Type': 'application/json',
-            ...getCorsHeaders()
+            ...getCorsHeaders(origin)
           },
           body: JSON.stringify(error.response.data)
         };
@@ -74,7 +146,7 @@ export const handler = async (
         statusCode: 500,
         headers: {
           'Content-Type': 'application/json',
-          ...getCorsHeaders()
+          ...getCorsHeaders(origin)
         },
         body: JSON.stringify({ error: 'Internal server error' })
       };
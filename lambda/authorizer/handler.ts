@@ -0,0 +1,96 @@
+// lambda/authorizer/handler.ts
+import { APIGatewayAuthorizerResult, APIGatewayProxyEvent, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { createHash } from 'crypto';
+import { JwtClaims, verifyJwt } from '../utils/jwt';
+import { resolveAccessToken } from '../utils/proxy';
+
+// Constants
+// Claim that names the caller's organisation; exposed to integrations as tenant_id
+const AUTH_TENANT_CLAIM = process.env.AUTH_TENANT_CLAIM || 'tenant_id';
+// Rejected tokens are remembered briefly so a retrying client does not re-verify each time
+const DENY_CACHE_TTL_MS = 60 * 1000;
+const DECISION_CACHE_MAX_ENTRIES = 1000;
+
+// Types
+interface Decision {
+  claims: JwtClaims | null;
+  expiresAt: number;
+}
+
+// In-memory decisions per container, keyed by token hash; Map order is insertion order, so the first key is the oldest
+const decisionCache = new Map<string, Decision>();
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const getDecision = async (token: string): Promise<Decision> => {
+  const cacheKey = hashToken(token);
+  const cached = decisionCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  let decision: Decision;
+  try {
+    const claims = await verifyJwt(token);
+    decision = { claims, expiresAt: claims.exp * 1000 };
+  } catch (error) {
+    console.warn('Rejected access token:', (error as Error).message);
+    decision = { claims: null, expiresAt: Date.now() + DENY_CACHE_TTL_MS };
+  }
+
+  decisionCache.delete(cacheKey);
+  decisionCache.set(cacheKey, decision);
+  if (decisionCache.size > DECISION_CACHE_MAX_ENTRIES) {
+    decisionCache.delete(decisionCache.keys().next().value as string);
+  }
+  return decision;
+};
+
+/**
+ * Allows every method of the stage, so a policy cached by API Gateway for one
+ * route also covers the caller's other protected routes.
+ */
+const buildAllowPolicy = (methodArn: string, claims: JwtClaims): APIGatewayAuthorizerResult => {
+  const [apiArn, stage] = methodArn.split('/');
+  const tenantId = claims[AUTH_TENANT_CLAIM];
+
+  return {
+    principalId: claims.sub,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [{
+        Action: 'execute-api:Invoke',
+        Effect: 'Allow',
+        Resource: `${apiArn}/${stage}/*`
+      }]
+    },
+    // Context values must be primitives, so the full claim set travels as JSON
+    context: {
+      sub: claims.sub,
+      ...(tenantId !== undefined && tenantId !== null && { tenant_id: String(tenantId) }),
+      ...(claims.scope && { scope: claims.scope }),
+      claims: JSON.stringify(claims)
+    }
+  };
+};
+
+/**
+ * REQUEST authorizer for the protected routes. Verifies the Polestar access
+ * token from the Authorization or access-token header, or in session mode the
+ * session cookie, once at the gateway and passes the principal and claims to
+ * the integration through `requestContext.authorizer`.
+ */
+export const handler = async (event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
+  // The router's token resolution only reads headers, which both event shapes share
+  const token = await resolveAccessToken(event as unknown as APIGatewayProxyEvent);
+  if (!token) {
+    // API Gateway maps this exact message to a 401
+    throw new Error('Unauthorized');
+  }
+
+  const decision = await getDecision(token);
+  if (!decision.claims) {
+    throw new Error('Unauthorized');
+  }
+  return buildAllowPolicy(event.methodArn, decision.claims);
+};
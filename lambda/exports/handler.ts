@@ -0,0 +1,221 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { Lambda } from 'aws-sdk';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  EndpointConfig,
+  createResponse,
+  createErrorResponse,
+  createRouter,
+  extractAccessToken,
+  getPrincipal
+} from '../utils/proxy';
+import {
+  SESSION_MODE_ENABLED,
+  createSession,
+  deleteSessionByKey,
+  getSessionId,
+  getSessionKey
+} from '../utils/session';
+import { resolveCollectionSource, COLLECTION_SOURCES } from '../utils/collections';
+import { CONTROL_PARAMS } from '../utils/cursor';
+import {
+  ExportFormat,
+  ExportJob,
+  ExportWorkerEvent,
+  EXPORT_CONTENT_TYPES,
+  createJob,
+  getJob,
+  updateJob
+} from './jobs';
+
+// Initialize clients
+const lambdaClient = new Lambda();
+const s3Client = new S3Client({});
+
+// Constants
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+const EXPORT_WORKER_FUNCTION = process.env.EXPORT_WORKER_FUNCTION!;
+const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+// Types
+interface CreateExportRequest {
+  path?: string;
+  query?: { [key: string]: unknown };
+  format?: string;
+}
+
+// Utility functions
+/**
+ * Identifies the caller a job belongs to. Without the authorizer the only
+ * identity is the token itself, so such jobs are readable until it is refreshed.
+ */
+const getJobOwner = (event: APIGatewayProxyEvent, accessToken: string): { owner_id: string; tenant_id?: string } => {
+  const principal = getPrincipal(event);
+  if (principal) {
+    return { owner_id: `principal:${principal.id}`, ...(principal.tenantId && { tenant_id: principal.tenantId }) };
+  }
+  return { owner_id: `token:${createHash('sha256').update(accessToken).digest('hex')}` };
+};
+
+const toJobView = (job: ExportJob, download?: { url: string; expiresAt: string }) => ({
+  id: job.id,
+  status: job.status,
+  path: job.path,
+  query: job.query,
+  format: job.format,
+  records_written: job.records_written,
+  total_count: job.total_count ?? null,
+  progress: job.total_count ? Math.min(1, job.records_written / job.total_count) : null,
+  error: job.error ?? null,
+  created_at: job.created_at,
+  updated_at: job.updated_at,
+  download_url: download?.url ?? null,
+  download_expires_at: download?.expiresAt ?? null
+});
+
+/**
+ * Session the worker reads its tokens from. A cookie session is shared, so the
+ * worker sees its rotations; a header token is stored in a session of its own,
+ * with the refresh-token header when sent, so that exports outlasting the
+ * access token can refresh it.
+ */
+const getWorkerSession = async (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+): Promise<Pick<ExportWorkerEvent, 'session_key' | 'owns_session'>> => {
+  const cookieSessionId = getSessionId(event);
+  if (SESSION_MODE_ENABLED && cookieSessionId && !extractAccessToken(event)) {
+    return { session_key: getSessionKey(cookieSessionId), owns_session: false };
+  }
+
+  const sessionId = await createSession({
+    access_token: accessToken,
+    refresh_token: event.headers?.['refresh-token'] || event.headers?.['Refresh-Token'] || ''
+  });
+  return { session_key: getSessionKey(sessionId), owns_session: true };
+};
+
+// Endpoint handlers
+const createExportJob = async (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  let request: CreateExportRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch (error) {
+    return createErrorResponse(400, { error: 'Request body must be valid JSON' });
+  }
+
+  if (!request.path || !resolveCollectionSource(request.path)) {
+    return createErrorResponse(400, {
+      error: 'Unsupported export path',
+      message: `path must match one of: ${COLLECTION_SOURCES.map(source => source.path).join(', ')}`
+    });
+  }
+
+  const format = (request.format || 'ndjson') as ExportFormat;
+  if (!(format in EXPORT_CONTENT_TYPES)) {
+    return createErrorResponse(400, { error: 'Invalid format. Must be one of: ndjson, csv' });
+  }
+
+  // Upstream filters only; pagination is driven by the worker
+  const query: { [key: string]: string } = {};
+  Object.entries(request.query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && key !== 'offset' && !CONTROL_PARAMS.includes(key)) {
+      query[key] = String(value);
+    }
+  });
+
+  const job = await createJob({
+    id: uuidv4(),
+    path: request.path,
+    query,
+    format,
+    ...getJobOwner(event, accessToken)
+  });
+
+  let workerEvent: ExportWorkerEvent | null = null;
+  try {
+    workerEvent = { job_id: job.id, ...(await getWorkerSession(event, accessToken)) };
+    await lambdaClient.invoke({
+      FunctionName: EXPORT_WORKER_FUNCTION,
+      InvocationType: 'Event',
+      Payload: JSON.stringify(workerEvent)
+    }).promise();
+  } catch (error) {
+    // Without a worker the job would stay PENDING forever
+    console.error(`Error starting export job ${job.id}:`, error);
+    await updateJob(job.id, { status: 'FAILED', error: 'Export could not be started' });
+    if (workerEvent?.owns_session) {
+      await deleteSessionByKey(workerEvent.session_key);
+    }
+    return createErrorResponse(502, {
+      error: 'Export could not be started',
+      message: `Job ${job.id} was marked FAILED; retry the export`
+    });
+  }
+
+  return createResponse(202, {
+    data: toJobView(job),
+    meta: {
+      status_code: 202,
+      status_url: `/exports/${job.id}`
+    }
+  });
+};
+
+const getExportJob = async (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const id = event.pathParameters?.id;
+  if (!id) {
+    return createErrorResponse(400, { error: 'ID is required' });
+  }
+
+  // Other callers' jobs are reported as missing, so job ids cannot be probed
+  const job = await getJob(id);
+  if (!job || job.owner_id !== getJobOwner(event, accessToken).owner_id) {
+    return createErrorResponse(404, { error: 'Export job not found' });
+  }
+
+  let download: { url: string; expiresAt: string } | undefined;
+  if (job.status === 'SUCCEEDED' && job.s3_key) {
+    const url = await getSignedUrl(s3Client, new GetObjectCommand({
+      Bucket: EXPORTS_BUCKET,
+      Key: job.s3_key,
+      ResponseContentDisposition: `attachment; filename="${job.id}.${job.format}"`
+    }), { expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS });
+
+    download = {
+      url,
+      expiresAt: new Date(Date.now() + DOWNLOAD_URL_EXPIRY_SECONDS * 1000).toISOString()
+    };
+  }
+
+  return createResponse(200, {
+    data: toJobView(job, download),
+    meta: { status_code: 200 }
+  });
+};
+
+// Route configuration
+const endpoints: EndpointConfig[] = [
+  {
+    method: 'POST',
+    path: '/exports',
+    handler: createExportJob
+  },
+  {
+    method: 'GET',
+    path: '/exports/{id}',
+    handler: getExportJob
+  }
+];
+
+// Main handler
+export const handler = createRouter(endpoints, 'exports handler');
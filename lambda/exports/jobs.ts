@@ -0,0 +1,98 @@
+import { DynamoDB } from 'aws-sdk';
+
+// Initialize DynamoDB client
+const dynamodb = new DynamoDB.DocumentClient();
+const EXPORT_JOBS_TABLE = process.env.EXPORT_JOBS_TABLE!;
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60; // Keep job records for 7 days
+
+// Types
+export type ExportFormat = 'ndjson' | 'csv';
+
+export type ExportJobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export interface ExportJob {
+  id: string;
+  status: ExportJobStatus;
+  // API path being exported, e.g. '/voyage-insights/vessel-zone-and-port-events/9321483'
+  path: string;
+  query: { [key: string]: string };
+  format: ExportFormat;
+  // Who created the job: 'principal:<sub>' when the authorizer verified the caller, else 'token:<hash>'
+  owner_id: string;
+  tenant_id?: string;
+  records_written: number;
+  total_count?: number;
+  s3_key?: string;
+  error?: string;
+  created_at: string;
+  updated_at: string;
+  ttl: number;
+}
+
+// Payload for the asynchronous worker invocation
+export interface ExportWorkerEvent {
+  job_id: string;
+  // Table key of the session holding the caller's tokens, so the worker can refresh them
+  session_key: string;
+  // Set when the session was created for this job and should end with it
+  owns_session: boolean;
+}
+
+export const EXPORT_CONTENT_TYPES: { [format in ExportFormat]: string } = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+export const createJob = async (
+  job: Pick<ExportJob, 'id' | 'path' | 'query' | 'format' | 'owner_id' | 'tenant_id'>
+): Promise<ExportJob> => {
+  const now = new Date().toISOString();
+  const item: ExportJob = {
+    ...job,
+    status: 'PENDING',
+    records_written: 0,
+    created_at: now,
+    updated_at: now,
+    ttl: Math.floor(Date.now() / 1000) + JOB_TTL_SECONDS
+  };
+
+  await dynamodb.put({
+    TableName: EXPORT_JOBS_TABLE,
+    Item: item
+  }).promise();
+
+  return item;
+};
+
+export const getJob = async (id: string): Promise<ExportJob | null> => {
+  const result = await dynamodb.get({
+    TableName: EXPORT_JOBS_TABLE,
+    Key: { id }
+  }).promise();
+
+  return (result.Item as ExportJob) || null;
+};
+
+export const updateJob = async (
+  id: string,
+  fields: Partial<Omit<ExportJob, 'id' | 'created_at' | 'ttl'>>
+): Promise<void> => {
+  const updates = { ...fields, updated_at: new Date().toISOString() };
+  const names: { [key: string]: string } = {};
+  const values: { [key: string]: any } = {};
+  const assignments = Object.entries(updates)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      names[`#${key}`] = key;
+      values[`:${key}`] = value;
+      return `#${key} = :${key}`;
+    });
+
+  await dynamodb.update({
+    TableName: EXPORT_JOBS_TABLE,
+    Key: { id },
+    UpdateExpression: `SET ${assignments.join(', ')}`,
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values
+  }).promise();
+};
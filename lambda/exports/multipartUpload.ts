@@ -0,0 +1,98 @@
+import {
+  S3Client,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  PutObjectCommand,
+  CompletedPart
+} from '@aws-sdk/client-s3';
+
+const s3Client = new S3Client({});
+
+// S3 requires every part except the last to be at least 5 MB
+const PART_SIZE = 8 * 1024 * 1024;
+
+export interface MultipartWriter {
+  write: (chunk: string) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+/**
+ * Streams text to an S3 object in multipart chunks, so an export never has to
+ * hold the whole file in memory. Small outputs are written with a single PUT.
+ */
+export const createMultipartWriter = (bucket: string, key: string, contentType: string): MultipartWriter => {
+  let buffered: Buffer[] = [];
+  let bufferedSize = 0;
+  let uploadId: string | undefined;
+  const parts: CompletedPart[] = [];
+
+  const uploadPart = async (): Promise<void> => {
+    if (!uploadId) {
+      const upload = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType
+      }));
+      uploadId = upload.UploadId;
+    }
+
+    const partNumber = parts.length + 1;
+    const response = await s3Client.send(new UploadPartCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: Buffer.concat(buffered)
+    }));
+    parts.push({ ETag: response.ETag, PartNumber: partNumber });
+
+    buffered = [];
+    bufferedSize = 0;
+  };
+
+  return {
+    write: async (chunk: string) => {
+      const data = Buffer.from(chunk, 'utf8');
+      buffered.push(data);
+      bufferedSize += data.length;
+      if (bufferedSize >= PART_SIZE) {
+        await uploadPart();
+      }
+    },
+
+    close: async () => {
+      if (!uploadId) {
+        await s3Client.send(new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+          Body: Buffer.concat(buffered)
+        }));
+        return;
+      }
+
+      if (bufferedSize > 0) {
+        await uploadPart();
+      }
+      await s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts }
+      }));
+    },
+
+    abort: async () => {
+      if (uploadId) {
+        await s3Client.send(new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId
+        }));
+      }
+    }
+  };
+};
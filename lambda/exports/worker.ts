@@ -0,0 +1,240 @@
+import { Context } from 'aws-lambda';
+import { createReadStream, createWriteStream, promises as fs, WriteStream } from 'fs';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { resolveCollectionSource, getCollection } from '../utils/collections';
+import { CONTROL_PARAMS } from '../utils/cursor';
+import { buildTargetUrl, fetchPage, mapWithConcurrency, PAGE_CONCURRENCY } from '../utils/pagination';
+import { flattenRecord, toCsvRow, toNdjson } from '../utils/formats';
+import { createMultipartWriter, MultipartWriter } from './multipartUpload';
+import { deleteSessionByKey, resolveSessionTokensByKey } from '../utils/session';
+import { ExportJob, ExportWorkerEvent, EXPORT_CONTENT_TYPES, getJob, updateJob } from './jobs';
+
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+// Time kept back to abort the upload and mark the job failed before Lambda stops the worker
+const TIME_LIMIT_MARGIN_MS = 60 * 1000;
+
+// Checked structurally, since axios may be bundled more than once
+const isUnauthorized = (error: any): boolean =>
+  Boolean(error?.isAxiosError) && error.response?.status === 401;
+
+/**
+ * Access tokens from the job's session. The session rotates tokens that are
+ * about to expire, and a 401 forces one refresh before the export gives up.
+ */
+const createTokenProvider = (sessionKey: string) => {
+  const resolve = async (forceRefresh: boolean): Promise<string> => {
+    let tokens;
+    try {
+      tokens = await resolveSessionTokensByKey(sessionKey, { forceRefresh });
+    } catch (error) {
+      console.error('Error refreshing export credentials:', error);
+      tokens = null;
+    }
+    if (!tokens) {
+      throw new Error('Access token expired and could not be refreshed; sign in again and restart the export');
+    }
+    return tokens.access_token;
+  };
+
+  return {
+    withAccessToken: async <T>(request: (accessToken: string) => Promise<T>): Promise<T> => {
+      try {
+        return await request(await resolve(false));
+      } catch (error) {
+        if (!isUnauthorized(error)) throw error;
+        try {
+          return await request(await resolve(true));
+        } catch (retryError) {
+          if (isUnauthorized(retryError)) {
+            throw new Error('Access token was rejected; sign in again and restart the export');
+          }
+          throw retryError;
+        }
+      }
+    }
+  };
+};
+
+// Writes pages of records in the job's format; `finish` flushes anything held back
+interface RecordWriter {
+  write: (records: any[]) => Promise<void>;
+  finish: () => Promise<void>;
+  discard: () => Promise<void>;
+}
+
+const writeLine = async (stream: WriteStream, line: string): Promise<void> => {
+  if (!stream.write(line)) {
+    await once(stream, 'drain');
+  }
+};
+
+const createNdjsonWriter = (writer: MultipartWriter): RecordWriter => ({
+  write: async records => {
+    if (records.length > 0) {
+      await writer.write(toNdjson(records));
+    }
+  },
+  finish: async () => undefined,
+  discard: async () => undefined
+});
+
+/**
+ * Later pages may add columns, so the CSV header is only known at the end.
+ * Flattened records are spooled to /tmp as JSON lines, then written out with
+ * the header built from the columns of every page.
+ */
+const createCsvWriter = (job: ExportJob, writer: MultipartWriter): RecordWriter => {
+  const spoolPath = path.join(tmpdir(), `${job.id}.jsonl`);
+  const spool = createWriteStream(spoolPath);
+  const columns = new Set<string>();
+  // Stream errors, e.g. a full /tmp, are raised on the next write instead of crashing the worker
+  let spoolError: Error | null = null;
+  spool.on('error', error => {
+    spoolError = error;
+  });
+
+  const closeSpool = async (): Promise<void> => {
+    if (!spool.closed) {
+      spool.end();
+      await once(spool, 'close');
+    }
+  };
+
+  return {
+    write: async records => {
+      for (const record of records) {
+        if (spoolError) throw spoolError;
+        const flatRecord = flattenRecord(record);
+        Object.keys(flatRecord).forEach(column => columns.add(column));
+        await writeLine(spool, `${JSON.stringify(flatRecord)}\n`);
+      }
+    },
+    finish: async () => {
+      await closeSpool();
+      if (spoolError) throw spoolError;
+      const header = Array.from(columns);
+      await writer.write(toCsvRow(header));
+
+      let chunk = '';
+      const lines = createInterface({ input: createReadStream(spoolPath), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line) continue;
+        const flatRecord = JSON.parse(line);
+        chunk += toCsvRow(header.map(column => flatRecord[column]));
+        // Hand rows to the multipart writer in batches rather than line by line
+        if (chunk.length >= 1024 * 1024) {
+          await writer.write(chunk);
+          chunk = '';
+        }
+      }
+      if (chunk) {
+        await writer.write(chunk);
+      }
+      await fs.rm(spoolPath, { force: true });
+    },
+    discard: async () => {
+      await closeSpool();
+      await fs.rm(spoolPath, { force: true });
+    }
+  };
+};
+
+const createRecordWriter = (job: ExportJob, writer: MultipartWriter): RecordWriter =>
+  job.format === 'csv' ? createCsvWriter(job, writer) : createNdjsonWriter(writer);
+
+const runExport = async (
+  job: ExportJob,
+  tokens: ReturnType<typeof createTokenProvider>,
+  context: Context
+): Promise<void> => {
+  const resolved = resolveCollectionSource(job.path);
+  if (!resolved) {
+    throw new Error(`Unsupported export path: ${job.path}`);
+  }
+
+  const { collectionPath } = resolved.source;
+  const targetUrl = buildTargetUrl(resolved.upstreamUrl, job.query, [...CONTROL_PARAMS, 'offset']);
+  const s3Key = `exports/${job.id}.${job.format}`;
+  const writer = createMultipartWriter(EXPORTS_BUCKET, s3Key, EXPORT_CONTENT_TYPES[job.format]);
+  const recordWriter = createRecordWriter(job, writer);
+
+  try {
+    const firstPage = await tokens.withAccessToken(accessToken => fetchPage(targetUrl, accessToken, 0));
+    const firstRecords = getCollection(firstPage, collectionPath) || [];
+    const totalCount: number = firstPage.meta?.total_count ?? firstRecords.length;
+    const limit: number = firstPage.meta?.limit || firstRecords.length;
+
+    await recordWriter.write(firstRecords);
+    let recordsWritten = firstRecords.length;
+    await updateJob(job.id, { records_written: recordsWritten, total_count: totalCount });
+
+    const offsets: number[] = [];
+    for (let offset = limit; limit > 0 && offset < totalCount; offset += limit) {
+      offsets.push(offset);
+    }
+
+    // Fetch a batch of pages in parallel, then write them in offset order
+    for (let i = 0; i < offsets.length; i += PAGE_CONCURRENCY) {
+      if (context.getRemainingTimeInMillis() < TIME_LIMIT_MARGIN_MS) {
+        throw new Error(`Export did not finish within the worker time limit after ${recordsWritten} records; narrow the query`);
+      }
+      const batch = offsets.slice(i, i + PAGE_CONCURRENCY);
+      const pages = await mapWithConcurrency(batch, PAGE_CONCURRENCY, offset =>
+        tokens.withAccessToken(accessToken => fetchPage(targetUrl, accessToken, offset, limit))
+      );
+
+      for (const page of pages) {
+        const records = getCollection(page, collectionPath) || [];
+        await recordWriter.write(records);
+        recordsWritten += records.length;
+      }
+      await updateJob(job.id, { records_written: recordsWritten });
+    }
+
+    await recordWriter.finish();
+    await writer.close();
+    await updateJob(job.id, {
+      status: 'SUCCEEDED',
+      records_written: recordsWritten,
+      s3_key: s3Key
+    });
+  } catch (error) {
+    await recordWriter.discard().catch(discardError => console.error('Error removing export spool:', discardError));
+    await writer.abort().catch(abortError => console.error('Error aborting export upload:', abortError));
+    throw error;
+  }
+};
+
+// Invoked asynchronously by the exports handler for each new job
+export const handler = async (event: ExportWorkerEvent, context: Context): Promise<void> => {
+  const job = await getJob(event.job_id);
+  if (!job) {
+    console.error('Export job not found:', event.job_id);
+    return;
+  }
+  if (job.status !== 'PENDING') {
+    console.log(`Export job ${job.id} is already ${job.status}, skipping`);
+    return;
+  }
+
+  await updateJob(job.id, { status: 'RUNNING' });
+
+  try {
+    await runExport(job, createTokenProvider(event.session_key), context);
+    console.log(`Export job ${job.id} completed`);
+  } catch (error) {
+    console.error(`Error in export job ${job.id}:`, error);
+    await updateJob(job.id, {
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : 'Export failed'
+    });
+  } finally {
+    if (event.owns_session) {
+      await deleteSessionByKey(event.session_key)
+        .catch(error => console.error('Error deleting export session:', error));
+    }
+  }
+};
@@ -1,6 +1,6 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { search } from './csvHandler';
-import { searchVessels } from './vesselSearch';
+import { search, MAX_SEARCH_LIMIT, DEFAULT_SEARCH_LIMIT } from '../zone-datasets/dataset';
+import { VESSEL_FILTERS, VesselSearchOptions, detectVesselQuery, searchVessels } from './vesselSearch';
 
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
     try {
@@ -36,27 +36,88 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
             };
         }
 
+        // Validate paging parameters, applied to vessels and to ports and zones
+        const limit = Number(event.queryStringParameters?.limit || DEFAULT_SEARCH_LIMIT);
+        const offset = Number(event.queryStringParameters?.offset || 0);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT || !Number.isInteger(offset) || offset < 0) {
+            return {
+                statusCode: 400,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Access-Control-Allow-Origin': '*'
+                },
+                body: JSON.stringify({
+                    error: `Invalid paging parameters. limit must be between 1 and ${MAX_SEARCH_LIMIT} and offset must be 0 or more`
+                })
+            };
+        }
+
+        // Validate vessel search options
+        const match = event.queryStringParameters?.match;
+        if (match && !['prefix', 'contains'].includes(match)) {
+            return {
+                statusCode: 400,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Access-Control-Allow-Origin': '*'
+                },
+                body: JSON.stringify({
+                    error: 'Invalid match parameter. Must be one of: prefix, contains'
+                })
+            };
+        }
+        if ((!type || type === 'vessels') && !detectVesselQuery(keyword)) {
+            return {
+                statusCode: 400,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Access-Control-Allow-Origin': '*'
+                },
+                body: JSON.stringify({
+                    error: 'Invalid IMO number. IMO numbers are 7 digits ending in a valid check digit'
+                })
+            };
+        }
+        const vesselOptions: VesselSearchOptions = {
+            limit,
+            offset,
+            match: match as VesselSearchOptions['match'],
+            formerNames: event.queryStringParameters?.former_names === 'true'
+        };
+        VESSEL_FILTERS.forEach(name => {
+            vesselOptions[name] = event.queryStringParameters?.[name];
+        });
+
         let result;
 
         // Fetch data based on type parameter
         if (!type || type === 'vessels') {
-            const vessels = await searchVessels(keyword);
+            const vesselResult = await searchVessels(keyword, vesselOptions);
+            // totalVessels counts every match upstream; returnedVessels is the size of this page
+            const vesselMeta = {
+                totalVessels: vesselResult.total_count,
+                returnedVessels: vesselResult.vessels.length,
+                nextVesselOffset: vesselResult.next_offset
+            };
+            const vessels = vesselResult.vessels;
             if (type === 'vessels') {
                 result = {
                     meta: {
                         keyword,
-                        totalVessels: vessels.length
+                        limit,
+                        offset,
+                        ...vesselMeta
                     },
                     data: {
                         vessels
                     }
                 };
             } else {
-                const zonePortResult = await search(keyword);
+                const zonePortResult = await search(keyword, { limit, offset });
                 result = {
                     meta: {
                         ...zonePortResult.meta,
-                        totalVessels: vessels.length
+                        ...vesselMeta
                     },
                     data: {
                         ...zonePortResult.data,
@@ -66,7 +127,7 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
             }
         } else {
             // Only fetch ports and zones data
-            const zonePortResult = await search(keyword);
+            const zonePortResult = await search(keyword, { type: type as 'ports' | 'zones', limit, offset });
             result = {
                 meta: {
                     ...zonePortResult.meta
@@ -0,0 +1,171 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { findRecordsByPrefix } from '../zone-datasets/dataset';
+import { foldText } from '../utils/text';
+import { VesselRecord, detectVesselQuery, searchVessels } from './vesselSearch';
+
+// Constants
+const SUGGESTION_TYPES = ['vessels', 'ports', 'zones'];
+const DEFAULT_SUGGESTION_LIMIT = 10;
+const MAX_SUGGESTION_LIMIT = 25;
+// Shorter prefixes match too much to be useful and are answered with no suggestions
+const MIN_QUERY_LENGTH = 2;
+// Vessel prefixes are cached per container, since every keystroke repeats the upstream call
+const VESSEL_CACHE_TTL_MS = 60 * 1000;
+const VESSEL_CACHE_MAX_ENTRIES = 500;
+const SUGGEST_CACHE_CONTROL = 'public, max-age=60';
+
+// Types
+interface Suggestion {
+    type: 'vessel' | 'port' | 'zone';
+    id: string;
+    label: string;
+    // ISO 3166-1 alpha-2 flag for vessels
+    flag?: string | null;
+    // ISO 3166-1 alpha-3 country for ports and zones
+    country?: string | null;
+    unlocode?: string | null;
+    zone_type?: string;
+}
+
+interface RankedSuggestion {
+    suggestion: Suggestion;
+    score: number;
+}
+
+// In-memory vessel prefix cache; Map order is insertion order, so the first key is the oldest
+const vesselCache = new Map<string, { expiresAt: number; vessels: VesselRecord[] }>();
+
+const createJsonResponse = (statusCode: number, body: any, headers: { [key: string]: string } = {}): APIGatewayProxyResult => ({
+    statusCode,
+    headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...headers
+    },
+    body: JSON.stringify(body)
+});
+
+const suggestVessels = async (query: string, limit: number): Promise<RankedSuggestion[]> => {
+    if (!detectVesselQuery(query)) return [];
+
+    const cacheKey = `${foldText(query)}|${limit}`;
+    const cached = vesselCache.get(cacheKey);
+    let vessels: VesselRecord[];
+    if (cached && cached.expiresAt > Date.now()) {
+        vessels = cached.vessels;
+    } else {
+        vessels = (await searchVessels(query, { limit })).vessels;
+        vesselCache.delete(cacheKey);
+        vesselCache.set(cacheKey, { expiresAt: Date.now() + VESSEL_CACHE_TTL_MS, vessels });
+        if (vesselCache.size > VESSEL_CACHE_MAX_ENTRIES) {
+            vesselCache.delete(vesselCache.keys().next().value as string);
+        }
+    }
+
+    // Upstream matches are name prefixes; an exact name ranks with an exact port or zone name
+    return vessels.map(vessel => ({
+        suggestion: {
+            type: 'vessel',
+            id: vessel.imo_number,
+            label: vessel.ship_name || '',
+            flag: vessel.flag_alpha_2 || null
+        },
+        score: foldText(vessel.ship_name || '') === foldText(query) ? 3 : 2
+    }));
+};
+
+const suggestZones = async (query: string, types: string[], limit: number): Promise<RankedSuggestion[]> => {
+    const wantsPorts = types.includes('ports');
+    const wantsZones = types.includes('zones');
+    if (!wantsPorts && !wantsZones) return [];
+
+    const matches = await findRecordsByPrefix(query, {
+        type: wantsPorts && wantsZones ? undefined : wantsPorts ? 'ports' : 'zones',
+        limit
+    });
+    return matches.map(({ record, score }) => ({
+        suggestion: record.zone_type === 'Ports'
+            ? {
+                type: 'port',
+                id: record.zone_id,
+                label: record.name || '',
+                country: record.iso3_code || null,
+                unlocode: record.unlocode || null
+            }
+            : {
+                type: 'zone',
+                id: record.zone_id,
+                label: record.name || '',
+                country: record.iso3_code || null,
+                zone_type: record.zone_type
+            },
+        score
+    }));
+};
+
+// GET /search/suggest?q=&types=&limit= - lightweight typeahead suggestions mixed across entity types
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    try {
+        const query = (event.queryStringParameters?.q || '').trim();
+        if (!query) {
+            return createJsonResponse(400, { error: 'Missing required query parameter: q' });
+        }
+
+        const types = (event.queryStringParameters?.types || SUGGESTION_TYPES.join(','))
+            .split(',')
+            .map(type => type.trim())
+            .filter(type => type);
+        if (types.length === 0 || types.some(type => !SUGGESTION_TYPES.includes(type))) {
+            return createJsonResponse(400, {
+                error: 'Invalid types parameter. Must be a comma-separated list of: vessels, ports, zones'
+            });
+        }
+
+        const limit = Number(event.queryStringParameters?.limit || DEFAULT_SUGGESTION_LIMIT);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTION_LIMIT) {
+            return createJsonResponse(400, {
+                error: `Invalid limit parameter. Must be between 1 and ${MAX_SUGGESTION_LIMIT}`
+            });
+        }
+
+        const unavailable: string[] = [];
+        let ranked: RankedSuggestion[] = [];
+        if (foldText(query).length >= MIN_QUERY_LENGTH) {
+            // Vessel lookups are best effort; ports and zones are still suggested if the upstream fails
+            const [vessels, zones] = await Promise.all([
+                types.includes('vessels')
+                    ? suggestVessels(query, limit).catch(error => {
+                        console.error('Error suggesting vessels:', error);
+                        unavailable.push('vessels');
+                        return [];
+                    })
+                    : [],
+                suggestZones(query, types, limit)
+            ]);
+            ranked = [...vessels, ...zones];
+        }
+
+        const suggestions = ranked
+            .sort((a, b) => b.score - a.score ||
+                a.suggestion.label.length - b.suggestion.label.length ||
+                a.suggestion.label.localeCompare(b.suggestion.label))
+            .slice(0, limit)
+            .map(({ suggestion }) => suggestion);
+
+        return createJsonResponse(200, {
+            meta: {
+                q: query,
+                types,
+                limit,
+                totalSuggestions: suggestions.length,
+                ...(unavailable.length > 0 && { unavailable })
+            },
+            data: {
+                suggestions
+            }
+        }, unavailable.length > 0 ? {} : { 'Cache-Control': SUGGEST_CACHE_CONTROL });
+    } catch (error) {
+        console.error('Error in suggest handler:', error);
+        return createJsonResponse(500, { error: 'Internal server error' });
+    }
+};
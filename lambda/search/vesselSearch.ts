@@ -1,15 +1,25 @@
-import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import axios from 'axios';
+import { PolestarCredentials, withPolestarCredentials } from '../utils/polestarCredentials';
 
-const secretsClient = new SecretsManagerClient({});
-const POLESTAR_SECRET_ARN = process.env.POLESTAR_SECRET_ARN;
+const DEFAULT_VESSEL_LIMIT = 50;
+const SISSHIP_URL = 'https://api.polestar-production.com/purpletrac/v1/sisship';
 
-interface PolestarCredentials {
-    username: string;
-    api_key: string;
-}
+// Upstream filter used for each kind of keyword
+const NAME_FILTERS = {
+    prefix: { name: 'ship_name__istartswith', former_name: 'former_names__istartswith' },
+    contains: { name: 'ship_name__icontains', former_name: 'former_names__icontains' }
+};
+const IDENTIFIER_FILTERS = {
+    imo: 'imo_number',
+    mmsi: 'mmsi',
+    call_sign: 'call_sign__iexact'
+};
+
+// Filters passed through to the upstream as given
+export const VESSEL_FILTERS = ['ship_type', 'flag_code', 'ship_status'] as const;
 
-interface VesselRecord {
+export interface VesselRecord {
+    call_sign?: string | null;
     flag_alpha_2: string;
     flag_code: string;
     image: string | null;
@@ -18,6 +28,38 @@ interface VesselRecord {
     ship_name: string;
     ship_status: string;
     ship_type: string;
+    // Which identifier or name the keyword matched
+    matched_on?: VesselMatch;
+}
+
+export type VesselQueryKind = 'imo' | 'mmsi' | 'call_sign' | 'name';
+export type VesselMatch = VesselQueryKind | 'former_name';
+
+export interface VesselQuery {
+    kind: VesselQueryKind;
+    value: string;
+}
+
+export interface VesselSearchOptions {
+    limit?: number;
+    offset?: number;
+    // How names are matched; identifiers are always matched exactly
+    match?: 'prefix' | 'contains';
+    // Also match names the vessel was previously registered under
+    formerNames?: boolean;
+    ship_type?: string;
+    flag_code?: string;
+    ship_status?: string;
+}
+
+export interface VesselSearchResult {
+    vessels: VesselRecord[];
+    // Matches across every lookup; a vessel matching two lookups is counted in both
+    total_count: number;
+    limit: number;
+    offset: number;
+    // Offset of the next page, or null on the last page
+    next_offset: number | null;
 }
 
 interface PolestarResponse {
@@ -31,37 +73,122 @@ interface PolestarResponse {
     objects: VesselRecord[];
 }
 
-async function getCredentials(): Promise<PolestarCredentials> {
-    const command = new GetSecretValueCommand({
-        SecretId: POLESTAR_SECRET_ARN,
-    });
+// IMO numbers carry a check digit: the first six digits weighted 7 down to 2, summed, mod 10
+export function isValidImo(value: string): boolean {
+    if (!/^\d{7}$/.test(value)) return false;
+    const sum = value
+        .slice(0, 6)
+        .split('')
+        .reduce((total, digit, i) => total + Number(digit) * (7 - i), 0);
+    return sum % 10 === Number(value[6]);
+}
 
-    const response = await secretsClient.send(command);
-    if (!response.SecretString) {
-        throw new Error('No secret string found');
+/**
+ * Works out what a search keyword is: an IMO number (7 digits with a valid
+ * check digit, optionally prefixed with 'IMO'), an MMSI (9 digits), a call sign
+ * (3 to 7 letters and digits including at least one digit) or a name. Returns
+ * null for an 'IMO'-prefixed keyword whose number is not a valid IMO.
+ */
+export function detectVesselQuery(keyword: string): VesselQuery | null {
+    const value = keyword.trim();
+    const imo = value.match(/^imo\s*:?\s*(\d+)$/i);
+    if (imo) {
+        return isValidImo(imo[1]) ? { kind: 'imo', value: imo[1] } : null;
     }
+    if (isValidImo(value)) return { kind: 'imo', value };
+    if (/^\d{9}$/.test(value)) return { kind: 'mmsi', value };
+    if (/^(?=.*\d)(?=.*[a-z])[a-z0-9]{3,7}$/i.test(value)) return { kind: 'call_sign', value: value.toUpperCase() };
+    return { kind: 'name', value };
+}
 
-    return JSON.parse(response.SecretString);
+async function fetchVessels(
+    credentials: PolestarCredentials,
+    filter: { [key: string]: string },
+    options: VesselSearchOptions,
+    offset: number,
+    limit: number
+): Promise<PolestarResponse> {
+    const params: { [key: string]: string | number } = {
+        limit,
+        offset,
+        ...filter,
+        username: credentials.username,
+        api_key: credentials.api_key,
+    };
+    VESSEL_FILTERS.forEach(name => {
+        if (options[name]) params[name] = options[name] as string;
+    });
+
+    const response = await axios.get<PolestarResponse>(SISSHIP_URL, { params });
+    return response.data;
 }
 
-export async function searchVessels(keyword: string): Promise<VesselRecord[]> {
+/**
+ * Searches vessels by IMO, MMSI, call sign or name, depending on what the
+ * keyword looks like. Call-sign-like keywords are also matched as names, and
+ * `formerNames` adds vessels whose previous names match. Results are tagged
+ * with `matched_on`.
+ *
+ * Lookups are paged as if their results were concatenated in order, so
+ * `offset` and `limit` cover all of them and `total_count` is the upstream
+ * total rather than the page size. Upstream `next` links are not returned as
+ * they carry the API credentials; `next_offset` replaces them.
+ */
+export async function searchVessels(keyword: string, options: VesselSearchOptions = {}): Promise<VesselSearchResult> {
     try {
-        const credentials = await getCredentials();
-        
-        const response = await axios.get<PolestarResponse>(
-            'https://api.polestar-production.com/purpletrac/v1/sisship',
-            {
-                params: {
-                    limit: 500,
-                    offset: 0,
-                    ship_name__istartswith: keyword,
-                    username: credentials.username,
-                    api_key: credentials.api_key,
-                },
+        const query = detectVesselQuery(keyword);
+        if (!query) {
+            throw new Error(`Invalid IMO number: ${keyword}`);
+        }
+
+        const nameFilters = NAME_FILTERS[options.match || 'prefix'];
+        const lookups: [VesselMatch, { [key: string]: string }][] = [];
+        if (query.kind !== 'name') {
+            lookups.push([query.kind, { [IDENTIFIER_FILTERS[query.kind]]: query.value }]);
+        }
+        if (query.kind === 'name' || query.kind === 'call_sign') {
+            lookups.push(['name', { [nameFilters.name]: query.value }]);
+            if (options.formerNames) {
+                lookups.push(['former_name', { [nameFilters.former_name]: query.value }]);
+            }
+        }
+
+        const limit = options.limit ?? DEFAULT_VESSEL_LIMIT;
+        const offset = options.offset ?? 0;
+
+        // A 401 refreshes the credentials and runs every lookup again
+        return await withPolestarCredentials(async credentials => {
+            let skip = offset;
+            let remaining = limit;
+            let totalCount = 0;
+            const vessels = new Map<string, VesselRecord>();
+
+            // Each lookup's total decides where the page falls in the next one, so lookups run in order.
+            // Once the page is full, later lookups are fetched with limit 1 only for their totals.
+            for (const [matchedOn, filter] of lookups) {
+                const page = await fetchVessels(credentials, filter, options, skip, Math.max(remaining, 1));
+                const lookupTotal = page.meta?.total_count ?? page.objects.length;
+                totalCount += lookupTotal;
+
+                // Earlier lookups win, so an exact identifier match is reported over a name match
+                page.objects.slice(0, remaining).forEach(vessel => {
+                    const key = vessel.imo_number || `${matchedOn}:${vessels.size}`;
+                    if (!vessels.has(key)) {
+                        vessels.set(key, { ...vessel, matched_on: matchedOn });
+                    }
+                });
+                remaining = Math.max(0, remaining - Math.min(page.objects.length, remaining));
+                skip = Math.max(0, skip - lookupTotal);
             }
-        );
 
-        return response.data.objects;
+            return {
+                vessels: Array.from(vessels.values()),
+                total_count: totalCount,
+                limit,
+                offset,
+                next_offset: offset + limit < totalCount ? offset + limit : null
+            };
+        });
     } catch (error) {
         console.error('Error searching vessels:', error);
         throw error;
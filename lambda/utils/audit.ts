@@ -0,0 +1,59 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { Principal } from './proxy';
+import { Role } from './roles';
+
+// Initialize DynamoDB client
+const dynamodb = new DynamoDB.DocumentClient();
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+
+// Constants
+const AUDIT_RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS || '365', 10);
+
+// Types
+export type AuditOutcome = 'denied' | 'succeeded' | 'failed';
+
+export interface AuditEntry {
+  outcome: AuditOutcome;
+  principal: Principal | null;
+  role: Role | null;
+  status_code: number;
+  // Why the request was denied, e.g. the role it lacked
+  reason?: string;
+}
+
+/**
+ * Records a denied or audited request. Writes are best effort: a failure is
+ * logged, with the entry, rather than failing a request that already ran.
+ */
+export const writeAuditRecord = async (event: APIGatewayProxyEvent, entry: AuditEntry): Promise<void> => {
+  const now = new Date();
+  const record = {
+    id: uuidv4(),
+    timestamp: now.toISOString(),
+    action: `${event.httpMethod} ${event.path}`,
+    query: event.queryStringParameters || {},
+    outcome: entry.outcome,
+    status_code: entry.status_code,
+    reason: entry.reason ?? null,
+    // Principal-less callers are grouped so the principal index still covers them
+    principal_id: entry.principal?.id || 'anonymous',
+    tenant_id: entry.principal?.tenantId ?? null,
+    role: entry.role,
+    api_key_id: event.requestContext?.identity?.apiKeyId ?? null,
+    source_ip: event.requestContext?.identity?.sourceIp ?? null,
+    request_id: event.requestContext?.requestId ?? null,
+    expires_at: Math.floor(now.getTime() / 1000) + AUDIT_RETENTION_DAYS * 24 * 60 * 60
+  };
+
+  if (!AUDIT_TABLE) {
+    console.warn('AUDIT_TABLE is not configured, audit record not stored:', JSON.stringify(record));
+    return;
+  }
+  try {
+    await dynamodb.put({ TableName: AUDIT_TABLE, Item: record }).promise();
+  } catch (error) {
+    console.error('Error writing audit record:', error, JSON.stringify(record));
+  }
+};
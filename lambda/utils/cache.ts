@@ -0,0 +1,244 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDB } from 'aws-sdk';
+import { createHash } from 'crypto';
+
+// Initialize DynamoDB client
+const dynamodb = new DynamoDB.DocumentClient();
+const RESPONSE_CACHE_TABLE = process.env.RESPONSE_CACHE_TABLE;
+
+// DynamoDB items are limited to 400 KB; larger responses are served uncached
+const MAX_CACHED_BODY_BYTES = 350 * 1024;
+
+// Types
+export interface CachePolicy {
+  // How long a cached response is served before the upstream is called again
+  ttlSeconds: number;
+}
+
+interface CachedResponse {
+  cache_key: string;
+  status_code: number;
+  headers: { [key: string]: string };
+  body: string;
+  etag: string;
+  cached_at: number;
+  expires_at: number;
+}
+
+// Freshness policies shared by the proxy routes
+export const CACHE_POLICIES = {
+  // Slowly changing reference data, e.g. vessel characteristics and PSC inspections
+  reference: { ttlSeconds: 24 * 60 * 60 },
+  // Historical activity such as port calls, events and the zones list
+  standard: { ttlSeconds: 15 * 60 },
+  // Near real-time data such as vessels currently in a zone
+  live: { ttlSeconds: 60 }
+} as const;
+
+// Utility functions
+const hash = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+const getHeader = (event: APIGatewayProxyEvent, name: string): string | undefined => {
+  const headers = event.headers || {};
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+};
+
+/**
+ * Identifies whose data a response contains. A tenant set by the API Gateway
+ * authorizer is trusted; otherwise the scope is a hash of the access token, so
+ * a cached response is only ever served back to the same credentials.
+ */
+const getCacheScope = (event: APIGatewayProxyEvent, accessToken: string): string => {
+  const tenantId = event.requestContext?.authorizer?.tenant_id;
+  if (tenantId) return `tenant:${tenantId}`;
+  return accessToken ? `token:${hash(accessToken)}` : 'public';
+};
+
+/**
+ * Latest time, in epoch seconds, a cached response may be served to the request's
+ * credentials. Tokens the authorizer verified, and public routes, are bounded by
+ * the policy alone. Otherwise nothing has checked the token, so entries must not
+ * outlive its `exp` claim; it is read without verifying the signature, which can
+ * only shorten the lifetime. Null when an unverified token has no readable expiry.
+ */
+const getCacheDeadline = (event: APIGatewayProxyEvent, accessToken: string, policy: CachePolicy): number | null => {
+  const now = Math.floor(Date.now() / 1000);
+  const policyDeadline = now + policy.ttlSeconds;
+  if (!accessToken || event.requestContext?.authorizer?.principalId) return policyDeadline;
+
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8'));
+    if (typeof payload.exp === 'number') return Math.min(policyDeadline, payload.exp);
+  } catch (error) {
+    // Not a JWT
+  }
+  return null;
+};
+
+// Query parameters and the Accept header both change the response, so both are part of the key
+const getCacheKey = (event: APIGatewayProxyEvent, scope: string): string => {
+  const multiValueQuery = event.multiValueQueryStringParameters || {};
+  const singleValueQuery = event.queryStringParameters || {};
+  const query = Array.from(new Set([...Object.keys(multiValueQuery), ...Object.keys(singleValueQuery)]))
+    .sort()
+    .map(key => [key, multiValueQuery[key] || [singleValueQuery[key]]]);
+
+  return hash(JSON.stringify([
+    scope,
+    event.httpMethod,
+    event.path.replace(/\/+$/, ''),
+    query,
+    getHeader(event, 'Accept') || ''
+  ]));
+};
+
+// Marks a response that must not be stored or reused, e.g. one with failed upstream sections
+export const markUncacheable = (response: APIGatewayProxyResult): APIGatewayProxyResult => ({
+  ...response,
+  headers: { ...response.headers, 'Cache-Control': 'no-store' }
+});
+
+const isUncacheable = (response: APIGatewayProxyResult): boolean =>
+  Object.entries(response.headers || {}).some(([key, value]) =>
+    key.toLowerCase() === 'cache-control' && /no-store/i.test(String(value)));
+
+export const computeETag = (body: string): string => `"${hash(body).slice(0, 32)}"`;
+
+const matchesETag = (event: APIGatewayProxyEvent, etag: string): boolean => {
+  const ifNoneMatch = getHeader(event, 'If-None-Match');
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.trim() === '*' ||
+    ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+};
+
+// CORS headers depend on the request origin, so they are never cached
+const getCacheableHeaders = (headers: APIGatewayProxyResult['headers']): { [key: string]: string } => {
+  const cacheable: { [key: string]: string } = {};
+  Object.entries(headers || {}).forEach(([key, value]) => {
+    if (!key.toLowerCase().startsWith('access-control-')) {
+      cacheable[key] = String(value);
+    }
+  });
+  return cacheable;
+};
+
+// Cache reads and writes never fail the request; errors are logged and the upstream is used
+const readCache = async (cacheKey: string): Promise<CachedResponse | null> => {
+  if (!RESPONSE_CACHE_TABLE) return null;
+  try {
+    const result = await dynamodb.get({
+      TableName: RESPONSE_CACHE_TABLE,
+      Key: { cache_key: cacheKey }
+    }).promise();
+
+    const item = result.Item as CachedResponse | undefined;
+    // DynamoDB removes expired items lazily, so expiry is checked here as well
+    return item && item.expires_at > Math.floor(Date.now() / 1000) ? item : null;
+  } catch (error) {
+    console.error('Error reading response cache:', error);
+    return null;
+  }
+};
+
+const writeCache = async (item: CachedResponse): Promise<void> => {
+  if (!RESPONSE_CACHE_TABLE) return;
+  try {
+    await dynamodb.put({
+      TableName: RESPONSE_CACHE_TABLE,
+      Item: item
+    }).promise();
+  } catch (error) {
+    console.error('Error writing response cache:', error);
+  }
+};
+
+const withValidators = (
+  event: APIGatewayProxyEvent,
+  response: APIGatewayProxyResult,
+  etag: string,
+  cacheHeaders: { [key: string]: string },
+  corsHeaders: { [key: string]: string }
+): APIGatewayProxyResult => {
+  if (matchesETag(event, etag)) {
+    return {
+      statusCode: 304,
+      headers: { ...corsHeaders, ...cacheHeaders },
+      body: ''
+    };
+  }
+  return {
+    ...response,
+    headers: { ...response.headers, ...corsHeaders, ...cacheHeaders }
+  };
+};
+
+/**
+ * Serves a GET response from the DynamoDB response cache, or runs `execute` and
+ * stores its result when it succeeds.
+ *
+ * Every response carries an `ETag` and `Cache-Control`, and `If-None-Match`
+ * returns 304. A request with `Cache-Control: no-cache` skips the cache read but
+ * still refreshes the stored entry, and responses marked `no-store` by the
+ * handler are returned as they are. Without the authorizer, entries never outlive
+ * the token that stored them and expired tokens always reach the upstream.
+ */
+export const withResponseCache = async (
+  event: APIGatewayProxyEvent,
+  accessToken: string,
+  policy: CachePolicy,
+  corsHeaders: { [key: string]: string },
+  execute: () => Promise<APIGatewayProxyResult>
+): Promise<APIGatewayProxyResult> => {
+  const scope = getCacheScope(event, accessToken);
+  const cacheKey = getCacheKey(event, scope);
+  const visibility = scope === 'public' ? 'public' : 'private';
+  const deadline = getCacheDeadline(event, accessToken, policy);
+  const bypassCache = /no-cache|no-store/i.test(getHeader(event, 'Cache-Control') || '');
+
+  // An expired or unreadable token is left to the upstream to reject
+  if (deadline === null || deadline <= Math.floor(Date.now() / 1000)) {
+    return execute();
+  }
+
+  const cached = bypassCache ? null : await readCache(cacheKey);
+  if (cached) {
+    const now = Math.floor(Date.now() / 1000);
+    const age = Math.max(0, now - cached.cached_at);
+    return withValidators(event, {
+      statusCode: cached.status_code,
+      headers: cached.headers,
+      body: cached.body
+    }, cached.etag, {
+      'ETag': cached.etag,
+      'Cache-Control': `${visibility}, max-age=${Math.max(0, Math.min(cached.expires_at, deadline) - now)}`,
+      'Age': age.toString(),
+      'X-Cache': 'HIT'
+    }, corsHeaders);
+  }
+
+  const response = await execute();
+  if (response.statusCode !== 200 || isUncacheable(response)) {
+    return response;
+  }
+
+  const etag = computeETag(response.body);
+  const now = Math.floor(Date.now() / 1000);
+  if (Buffer.byteLength(response.body) <= MAX_CACHED_BODY_BYTES) {
+    await writeCache({
+      cache_key: cacheKey,
+      status_code: response.statusCode,
+      headers: getCacheableHeaders(response.headers),
+      body: response.body,
+      etag,
+      cached_at: now,
+      expires_at: deadline
+    });
+  }
+
+  return withValidators(event, response, etag, {
+    'ETag': etag,
+    'Cache-Control': `${visibility}, max-age=${Math.max(0, deadline - now)}`,
+    'X-Cache': 'MISS'
+  }, corsHeaders);
+};
@@ -0,0 +1,122 @@
+import { CollectionEndpointOptions } from './pagination';
+import { matchPath } from './proxy';
+
+// Types
+export interface CollectionSource extends CollectionEndpointOptions {
+  // Our route template, e.g. '/voyage-insights/vessel-port-calls/{imo}'
+  path: string;
+}
+
+// Collection helpers
+export const getCollection = (responseData: any, collectionPath: string): any[] | undefined => {
+  const value = collectionPath.split('.').reduce((current, key) => current?.[key], responseData);
+  return Array.isArray(value) ? value : undefined;
+};
+
+export const setCollection = (responseData: any, collectionPath: string, records: any[]): void => {
+  const keys = collectionPath.split('.');
+  const parent = keys.slice(0, -1).reduce((current, key) => {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    return current[key];
+  }, responseData);
+  parent[keys[keys.length - 1]] = records;
+};
+
+// Path of the first array under `data`, for responses without a known collection key
+export const findPrimaryCollectionPath = (responseData: any): string | undefined => {
+  const data = responseData?.data;
+  if (!data || typeof data !== 'object') return undefined;
+  if (Array.isArray(data)) return 'data';
+
+  const key = Object.keys(data).find(name => Array.isArray(data[name]));
+  return key ? `data.${key}` : undefined;
+};
+
+// Constants
+const ZONE_AND_PORT_API_BASE_URL = 'https://zone-service-api.polestar-production.com/zone-port-insights/v1';
+
+// Voyage insights
+export const VESSEL_PORT_CALLS: CollectionSource = {
+  path: '/voyage-insights/vessel-port-calls/{imo}',
+  baseUrl: 'https://zone-service-api.polestar-production.com/voyage-insights/v1/vessel-port-calls/:imo',
+  pathParam: 'imo',
+  collectionPath: 'data.port_calls',
+  missingParamMessage: 'IMO number is required'
+};
+
+export const VESSEL_ZONE_AND_PORT_EVENTS: CollectionSource = {
+  path: '/voyage-insights/vessel-zone-and-port-events/{imo}',
+  baseUrl: 'https://zone-service-api.polestar-production.com/voyage-insights/v1/vessel-zone-and-port-events/:imo',
+  pathParam: 'imo',
+  collectionPath: 'data.events',
+  missingParamMessage: 'IMO number is required'
+};
+
+export const VESSEL_AIS_REPORTING_GAPS: CollectionSource = {
+  path: '/voyage-insights/vessel-ais-reporting-gaps/{imo}',
+  baseUrl: 'https://gap-reporting-api-public.polestar-production.com/voyage-insights/v1/vessel-ais-reporting-gaps/:imo',
+  pathParam: 'imo',
+  collectionPath: 'data.gaps',
+  missingParamMessage: 'IMO number is required'
+};
+
+export const VESSEL_POSITIONAL_DISCREPANCIES: CollectionSource = {
+  path: '/voyage-insights/vessel-positional-discrepancies/{imo}',
+  baseUrl: 'https://ais-spoofing-api-public.polestar-production.com/voyage-insights/v1/vessel-positional-discrepancy/:imo',
+  pathParam: 'imo',
+  collectionPath: 'data.discrepancies',
+  missingParamMessage: 'IMO number is required'
+};
+
+export const VESSEL_PORT_STATE_CONTROL: CollectionSource = {
+  path: '/voyage-insights/vessel-port-state-control/{imo}',
+  baseUrl: 'https://psc-insp-service-api-public.polestar-production.com/voyage-insights/v1/vessel-port-state-control/:imo',
+  pathParam: 'imo',
+  collectionPath: 'data.inspections',
+  missingParamMessage: 'IMO number is required'
+};
+
+// Zone and port insights
+export const ZONE_AND_PORT_TRAFFIC: CollectionSource = {
+  path: '/zone-and-port-insights/zone-and-port-traffic/id/{id}',
+  baseUrl: `${ZONE_AND_PORT_API_BASE_URL}/zone-and-port-traffic/id/:id`,
+  pathParam: 'id',
+  collectionPath: 'data.events',
+  missingParamMessage: 'ID is required'
+};
+
+export const VESSELS_IN_ZONE_OR_PORT: CollectionSource = {
+  path: '/zone-and-port-insights/vessels-in-zone-or-port/id/{id}',
+  baseUrl: `${ZONE_AND_PORT_API_BASE_URL}/vessels-in-zone-or-port/id/:id`,
+  pathParam: 'id',
+  collectionPath: 'data.vessels',
+  missingParamMessage: 'ID is required'
+};
+
+export const COLLECTION_SOURCES: CollectionSource[] = [
+  VESSEL_PORT_CALLS,
+  VESSEL_ZONE_AND_PORT_EVENTS,
+  VESSEL_AIS_REPORTING_GAPS,
+  VESSEL_POSITIONAL_DISCREPANCIES,
+  VESSEL_PORT_STATE_CONTROL,
+  ZONE_AND_PORT_TRAFFIC,
+  VESSELS_IN_ZONE_OR_PORT
+];
+
+// Resolves a concrete API path to its collection source and upstream URL
+export const resolveCollectionSource = (
+  path: string
+): { source: CollectionSource; upstreamUrl: string } | null => {
+  for (const source of COLLECTION_SOURCES) {
+    const params = matchPath(source.path, path);
+    if (params?.[source.pathParam]) {
+      return {
+        source,
+        upstreamUrl: source.baseUrl.replace(`:${source.pathParam}`, encodeURIComponent(params[source.pathParam]))
+      };
+    }
+  }
+  return null;
+};
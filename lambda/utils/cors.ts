@@ -1,10 +1,13 @@
 // Get the allowed origins from environment variable
 const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:5173').split(',');
 
+// Helper function to check if origin is listed explicitly
+const isOriginListed = (origin?: string): boolean => !!origin && ALLOWED_ORIGINS.includes(origin);
+
 // Helper function to check if origin is allowed
 const isOriginAllowed = (origin?: string): boolean => {
   if (!origin) return false;
-  return ALLOWED_ORIGINS.includes(origin) || ALLOWED_ORIGINS.includes('*');
+  return isOriginListed(origin) || ALLOWED_ORIGINS.includes('*');
 };
 
 // Function to get CORS headers based on the request origin
@@ -17,9 +20,10 @@ export const getCorsHeaders = (requestOrigin?: string) => {
   return {
     'Access-Control-Allow-Origin': origin,
     'Access-Control-Allow-Methods': 'OPTIONS,POST,PUT,GET,DELETE',
-    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,Access-Token,Refresh-Token,access-token,refresh-token',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Expose-Headers': 'Access-Token,Refresh-Token,access-token,refresh-token'
+    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,Access-Token,Refresh-Token,access-token,refresh-token,If-None-Match,Cache-Control,X-Admin-Key,X-Requested-With',
+    // Origins only matched by '*' may call the API but never read responses made with the user's cookies
+    ...(isOriginListed(origin) && { 'Access-Control-Allow-Credentials': 'true' }),
+    'Access-Control-Expose-Headers': 'Access-Token,Refresh-Token,access-token,refresh-token,X-Total-Count,X-Next-Cursor,X-Prev-Cursor,ETag,X-Cache'
   };
 };
 
@@ -0,0 +1,131 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getSecretString } from './secrets';
+
+// Constants
+const CURSOR_SECRET_ARN = process.env.CURSOR_SECRET_ARN;
+const CURSOR_VERSION = 1;
+
+// Parameters that control our own API rather than the upstream query.
+// They are never forwarded to Polestar and never baked into a cursor.
+export const CONTROL_PARAMS = ['get_all', 'cursor', 'format', 'filter', 'sort', 'fields'];
+
+// Types
+export type QueryParams = { [key: string]: string };
+
+export interface CursorPayload {
+  // Request path the cursor was issued for, e.g. '/voyage-insights/vessel-port-calls/9321483'
+  scope: string;
+  // Upstream filters, excluding offset, limit and control parameters
+  query: QueryParams;
+  offset: number;
+  limit?: number;
+}
+
+// Signing helpers
+const getSigningKey = async (): Promise<string> => {
+  if (!CURSOR_SECRET_ARN) {
+    throw new Error('CURSOR_SECRET_ARN is not configured');
+  }
+  return getSecretString(CURSOR_SECRET_ARN);
+};
+
+const sign = (data: string, key: string): string =>
+  createHmac('sha256', key).update(data).digest('base64url');
+
+export const encodeCursor = async (payload: CursorPayload): Promise<string> => {
+  const data = Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...payload })).toString('base64url');
+  return `${data}.${sign(data, await getSigningKey())}`;
+};
+
+// Returns null when the token is malformed, tampered with or issued for another path
+export const decodeCursor = async (token: string, scope: string): Promise<CursorPayload | null> => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data, await getSigningKey()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { v, ...payload } = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    if (v !== CURSOR_VERSION || payload.scope !== scope || typeof payload.offset !== 'number') {
+      return null;
+    }
+    return payload as CursorPayload;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Query helpers
+const definedParams = (params: { [key: string]: string | undefined } | null): QueryParams =>
+  Object.entries(params || {}).reduce((result, [key, value]) => {
+    if (value !== undefined) result[key] = value;
+    return result;
+  }, {} as QueryParams);
+
+const filterParams = (params: QueryParams): QueryParams =>
+  Object.entries(params).reduce((result, [key, value]) => {
+    if (key !== 'offset' && key !== 'limit' && !CONTROL_PARAMS.includes(key)) {
+      result[key] = value;
+    }
+    return result;
+  }, {} as QueryParams);
+
+/**
+ * Resolves the effective query for a list request.
+ *
+ * Without a `cursor` parameter the request's query string is used as-is. With one,
+ * the filters, offset and limit come from the signed cursor and only control
+ * parameters are taken from the request. Returns null for an invalid cursor.
+ */
+export const resolveQueryParams = async (event: APIGatewayProxyEvent): Promise<QueryParams | null> => {
+  const requestParams = definedParams(event.queryStringParameters);
+  if (!requestParams.cursor) {
+    return requestParams;
+  }
+
+  const payload = await decodeCursor(requestParams.cursor, event.path);
+  if (!payload) {
+    return null;
+  }
+
+  const controlParams = Object.entries(requestParams).reduce((result, [key, value]) => {
+    if (CONTROL_PARAMS.includes(key) && key !== 'cursor') result[key] = value;
+    return result;
+  }, {} as QueryParams);
+
+  return {
+    ...controlParams,
+    ...payload.query,
+    offset: payload.offset.toString(),
+    ...(payload.limit !== undefined && { limit: payload.limit.toString() })
+  };
+};
+
+/**
+ * Adds `next_cursor` and `prev_cursor` to an upstream `meta` block, based on its
+ * offset, limit and total_count. Either is null when there is no such page.
+ */
+export const addCursorMeta = async (meta: any, scope: string, queryParams: QueryParams): Promise<void> => {
+  const limit = Number(meta.limit ?? queryParams.limit);
+  const offset = Number(meta.offset ?? queryParams.offset ?? 0);
+  const totalCount = Number(meta.total_count);
+
+  meta.next_cursor = null;
+  meta.prev_cursor = null;
+  if (!limit || Number.isNaN(offset) || Number.isNaN(totalCount)) {
+    return;
+  }
+
+  const query = filterParams(queryParams);
+  if (offset + limit < totalCount) {
+    meta.next_cursor = await encodeCursor({ scope, query, offset: offset + limit, limit });
+  }
+  if (offset > 0) {
+    meta.prev_cursor = await encodeCursor({ scope, query, offset: Math.max(0, offset - limit), limit });
+  }
+};
@@ -0,0 +1,105 @@
+// Record serialisation helpers shared by response formatting and exports
+
+// Flattens nested objects into dot-separated keys; arrays are kept as JSON strings
+export const flattenRecord = (record: any, prefix = ''): { [key: string]: any } => {
+  const flat: { [key: string]: any } = {};
+  Object.entries(record || {}).forEach(([key, value]) => {
+    const flatKey = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flattenRecord(value, flatKey));
+    } else {
+      flat[flatKey] = Array.isArray(value) ? JSON.stringify(value) : value;
+    }
+  });
+  return flat;
+};
+
+// Column order follows first appearance across the given records
+export const collectColumns = (records: { [key: string]: any }[]): string[] => {
+  const columns = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => columns.add(key)));
+  return Array.from(columns);
+};
+
+// Text starting with these is run as a formula by spreadsheet applications
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const isFormula = (value: unknown): boolean =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) &&
+  !(value.trim() !== '' && Number.isFinite(Number(value)));
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  // Numbers such as negative coordinates are left as they are; formulas are neutralised with a quote
+  const text = isFormula(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]): string => `${values.map(escapeCsvValue).join(',')}\r\n`;
+
+export const toCsv = (records: any[]): string => {
+  const flatRecords = records.map(record => flattenRecord(record));
+  const columns = collectColumns(flatRecords);
+  return toCsvRow(columns) + flatRecords.map(record => toCsvRow(columns.map(column => record[column]))).join('');
+};
+
+export const toNdjson = (records: any[]): string =>
+  records.map(record => `${JSON.stringify(record)}\n`).join('');
+
+// GeoJSON helpers
+const LATITUDE_KEY = /^(.*?)(lat|latitude)$/i;
+const LONGITUDE_SUFFIXES = ['lon', 'lng', 'long', 'longitude'];
+
+const toCoordinate = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+// Finds every latitude/longitude pair in a flattened record, e.g. `lat`/`lon` or
+// `gap_start.latitude`/`gap_start.longitude`, as [lon, lat] positions
+export const extractPositions = (flatRecord: { [key: string]: any }): number[][] => {
+  const positions: number[][] = [];
+  Object.keys(flatRecord).forEach(key => {
+    const match = key.match(LATITUDE_KEY);
+    if (!match) return;
+
+    const candidates = LONGITUDE_SUFFIXES.map(suffix => `${match[1]}${suffix}`.toLowerCase());
+    const lonKey = Object.keys(flatRecord).find(other => candidates.includes(other.toLowerCase()));
+    if (!lonKey) return;
+
+    const lat = toCoordinate(flatRecord[key]);
+    const lon = toCoordinate(flatRecord[lonKey]);
+    if (lat !== null && lon !== null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+      positions.push([lon, lat]);
+    }
+  });
+  return positions;
+};
+
+/**
+ * Converts records into a GeoJSON FeatureCollection. Records with one position
+ * become Points, records with several (e.g. gap start and end) become
+ * MultiPoints, and records without coordinates are left out.
+ */
+export const toFeatureCollection = (records: any[]) => {
+  const features = records
+    .map(record => {
+      const positions = extractPositions(flattenRecord(record));
+      if (positions.length === 0) return null;
+
+      return {
+        type: 'Feature' as const,
+        geometry: positions.length === 1
+          ? { type: 'Point' as const, coordinates: positions[0] }
+          : { type: 'MultiPoint' as const, coordinates: positions },
+        properties: record
+      };
+    })
+    .filter(feature => feature !== null);
+
+  return {
+    type: 'FeatureCollection' as const,
+    features,
+    skipped_records: records.length - features.length
+  };
+};
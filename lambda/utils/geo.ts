@@ -0,0 +1,392 @@
+// Geometry helpers for GeoJSON coordinates ([lon, lat] in degrees)
+import { GeoJSONGeometry } from 'wellknown';
+
+// Types
+export type Position = number[];
+export type Ring = Position[];
+// [minLon, minLat, maxLon, maxLat]
+export type BoundingBox = [number, number, number, number];
+
+export interface PolygonalGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: Ring[] | Ring[][];
+}
+
+// Constants
+const EARTH_RADIUS_KM = 6371.0088;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const haversineKm = (a: Position, b: Position): number => {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLon = toRadians(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Ray casting; points exactly on an edge may fall either side
+export const pointInRing = (point: Position, ring: Ring): boolean => {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Inside the outer ring and outside every hole
+export const pointInPolygon = (point: Position, rings: Ring[]): boolean =>
+  rings.length > 0 &&
+  pointInRing(point, rings[0]) &&
+  !rings.slice(1).some(hole => pointInRing(point, hole));
+
+export const getPolygons = (geometry: PolygonalGeometry): Ring[][] =>
+  geometry.type === 'Polygon'
+    ? [geometry.coordinates as Ring[]]
+    : geometry.coordinates as Ring[][];
+
+export const pointInGeometry = (point: Position, geometry: PolygonalGeometry): boolean =>
+  getPolygons(geometry).some(polygon => pointInPolygon(point, polygon));
+
+// Longitude difference wrapped into [-180, 180), so positions across the antimeridian are near
+const lonDifference = (from: number, to: number): number => ((to - from + 540) % 360) - 180;
+
+// Distance from a point to a segment, using a local equirectangular projection
+const distanceToSegmentKm = (point: Position, a: Position, b: Position): number => {
+  const cosLat = Math.cos(toRadians(point[1]));
+  const project = (p: Position) => [lonDifference(point[0], p[0]) * cosLat, p[1] - point[1]];
+  const [ax, ay] = project(a);
+  const [bx, by] = project(b);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  const closest = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+  return haversineKm(point, closest);
+};
+
+// Zero when the point is inside the geometry, otherwise the distance to its nearest edge
+export const distanceToGeometryKm = (point: Position, geometry: PolygonalGeometry): number => {
+  if (pointInGeometry(point, geometry)) return 0;
+
+  let minDistance = Number.POSITIVE_INFINITY;
+  getPolygons(geometry).forEach(polygon => polygon.forEach(ring => {
+    for (let i = 1; i < ring.length; i++) {
+      minDistance = Math.min(minDistance, distanceToSegmentKm(point, ring[i - 1], ring[i]));
+    }
+  }));
+  return minDistance;
+};
+
+// [minLon, minLat, maxLon, maxLat] over every position in the geometry
+export const getBoundingBox = (geometry: PolygonalGeometry): BoundingBox => {
+  const bbox: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+  getPolygons(geometry).forEach(polygon => polygon.forEach(ring => ring.forEach(([lon, lat]) => {
+    bbox[0] = Math.min(bbox[0], lon);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lon);
+    bbox[3] = Math.max(bbox[3], lat);
+  })));
+  return bbox;
+};
+
+export const unionBoundingBox = (boxes: BoundingBox[]): BoundingBox => boxes.reduce<BoundingBox>(
+  (union, bbox) => [
+    Math.min(union[0], bbox[0]),
+    Math.min(union[1], bbox[1]),
+    Math.max(union[2], bbox[2]),
+    Math.max(union[3], bbox[3])
+  ],
+  [Infinity, Infinity, -Infinity, -Infinity]
+);
+
+export const bboxIntersects = (a: BoundingBox, b: BoundingBox): boolean =>
+  a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+// Point parts of a parsed GeoJSON geometry, including those inside a GeometryCollection
+export const toPointPositions = (geometry: any): Position[] => {
+  switch (geometry?.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return (geometry.geometries || []).flatMap(toPointPositions);
+    default:
+      return [];
+  }
+};
+
+// Polygon parts of a parsed GeoJSON geometry, including those inside a GeometryCollection
+export const toPolygonalGeometry = (geometry: any): PolygonalGeometry | null => {
+  const collect = (part: any): Ring[][] => {
+    switch (part?.type) {
+      case 'Polygon':
+        return [part.coordinates];
+      case 'MultiPolygon':
+        return part.coordinates;
+      case 'GeometryCollection':
+        return (part.geometries || []).flatMap(collect);
+      default:
+        return [];
+    }
+  };
+
+  const polygons = collect(geometry);
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+export const pointInBoundingBox = ([lon, lat]: Position, bbox: BoundingBox): boolean =>
+  lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3];
+
+const orientation = (a: Position, b: Position, c: Position): number =>
+  Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+const segmentsIntersect = (a: Position, b: Position, c: Position, d: Position): boolean =>
+  orientation(a, b, c) !== orientation(a, b, d) && orientation(c, d, a) !== orientation(c, d, b);
+
+// True when any part of the geometry overlaps the box, not just its bounding box
+export const geometryIntersectsBoundingBox = (geometry: PolygonalGeometry, bbox: BoundingBox): boolean => {
+  if (!bboxIntersects(getBoundingBox(geometry), bbox)) return false;
+
+  const rings = getPolygons(geometry).flat();
+  if (rings.some(ring => ring.some(position => pointInBoundingBox(position, bbox)))) return true;
+
+  const corners: Position[] = [[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[2], bbox[3]], [bbox[0], bbox[3]]];
+  if (corners.some(corner => pointInGeometry(corner, geometry))) return true;
+
+  return rings.some(ring => ring.some((position, i) => i > 0 && corners.some((corner, j) =>
+    segmentsIntersect(ring[i - 1], position, corner, corners[(j + 1) % 4])
+  )));
+};
+
+/**
+ * Boxes around a point that together contain every position within radiusKm
+ * of it: one box, or two when the area crosses the antimeridian, split at ±180.
+ */
+export const getRadiusBoundingBoxes = ([lon, lat]: Position, radiusKm: number): BoundingBox[] => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLat = Math.cos(toRadians(Math.min(89.9, Math.abs(lat) + latDelta)));
+  const lonDelta = latDelta / cosLat;
+  const minLat = Math.max(-90, lat - latDelta);
+  const maxLat = Math.min(90, lat + latDelta);
+  const west = lon - lonDelta;
+  const east = lon + lonDelta;
+
+  if (lonDelta >= 180) {
+    return [[-180, minLat, 180, maxLat]];
+  }
+  if (west < -180) {
+    return [[west + 360, minLat, 180, maxLat], [-180, minLat, east, maxLat]];
+  }
+  if (east > 180) {
+    return [[west, minLat, 180, maxLat], [-180, minLat, east - 360, maxLat]];
+  }
+  return [[west, minLat, east, maxLat]];
+};
+
+// Any parsed GeoJSON geometry, including GeometryCollection
+export interface Geometry {
+  type: string;
+  coordinates?: any;
+  geometries?: Geometry[];
+}
+
+const isPosition = (value: any[]): boolean => typeof value[0] === 'number';
+
+// Depth of coordinate nesting above positions for each GeoJSON geometry type
+const COORDINATE_DEPTHS: { [type: string]: number } = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3
+};
+
+const hasCoordinateDepth = (coordinates: unknown, depth: number): boolean =>
+  Array.isArray(coordinates) && (depth === 0
+    ? coordinates.length >= 2 && coordinates.every(value => typeof value === 'number')
+    : coordinates.every(child => hasCoordinateDepth(child, depth - 1)));
+
+/**
+ * Whether a parsed geometry is well-formed GeoJSON of a known type, as the WKT
+ * writer and the vector tile builder expect.
+ */
+export const isGeoJsonGeometry = (geometry: Geometry): geometry is GeoJSONGeometry =>
+  geometry.type === 'GeometryCollection'
+    ? Array.isArray(geometry.geometries) && geometry.geometries.every(isGeoJsonGeometry)
+    : geometry.type in COORDINATE_DEPTHS && hasCoordinateDepth(geometry.coordinates, COORDINATE_DEPTHS[geometry.type]);
+
+// Rebuilds nested coordinate arrays, applying `fn` to every position
+const mapCoordinates = (coordinates: any[], fn: (position: Position) => Position): any[] =>
+  isPosition(coordinates) ? fn(coordinates) : coordinates.map(child => mapCoordinates(child, fn));
+
+const mapGeometry = (geometry: Geometry, fn: (coordinates: any[], type: string) => any[]): Geometry =>
+  geometry.type === 'GeometryCollection'
+    ? { ...geometry, geometries: (geometry.geometries || []).map(part => mapGeometry(part, fn)) }
+    : { ...geometry, coordinates: fn(geometry.coordinates, geometry.type) };
+
+const allPositions = (geometry: Geometry): Position[] => {
+  const positions: Position[] = [];
+  const visit = (part: Geometry) => {
+    if (part.type === 'GeometryCollection') {
+      (part.geometries || []).forEach(visit);
+    } else if (part.coordinates) {
+      mapCoordinates(part.coordinates, position => {
+        positions.push(position);
+        return position;
+      });
+    }
+  };
+  visit(geometry);
+  return positions;
+};
+
+export const roundGeometry = (geometry: Geometry, decimals: number): Geometry => {
+  const factor = 10 ** decimals;
+  return mapGeometry(geometry, coordinates =>
+    mapCoordinates(coordinates, position => position.map(value => Math.round(value * factor) / factor))
+  );
+};
+
+// Planar distance in degrees from a position to a segment, used for simplification
+const segmentDistance = (p: Position, a: Position, b: Position): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+// Douglas-Peucker over a single line
+const simplifyLine = (line: Position[], tolerance: number): Position[] => {
+  if (line.length <= 2) return line;
+
+  const keep = new Array(line.length).fill(false);
+  keep[0] = keep[line.length - 1] = true;
+  const stack: [number, number][] = [[0, line.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(line[i], line[first], line[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return line.filter((_position, i) => keep[i]);
+};
+
+// Rings keep at least four positions so they stay valid; otherwise they are left as-is
+const simplifyRing = (ring: Ring, tolerance: number): Ring => {
+  const simplified = simplifyLine(ring, tolerance);
+  return simplified.length >= 4 ? simplified : ring;
+};
+
+/**
+ * Simplifies lines and polygon rings with Douglas-Peucker. `tolerance` is in
+ * degrees; points and multipoints are returned unchanged.
+ */
+export const simplifyGeometry = (geometry: Geometry, tolerance: number): Geometry =>
+  mapGeometry(geometry, (coordinates, type) => {
+    switch (type) {
+      case 'LineString':
+        return simplifyLine(coordinates, tolerance);
+      case 'MultiLineString':
+        return coordinates.map((line: Position[]) => simplifyLine(line, tolerance));
+      case 'Polygon':
+        return coordinates.map((ring: Ring) => simplifyRing(ring, tolerance));
+      case 'MultiPolygon':
+        return coordinates.map((polygon: Ring[]) => polygon.map(ring => simplifyRing(ring, tolerance)));
+      default:
+        return coordinates;
+    }
+  });
+
+// [minLon, minLat, maxLon, maxLat] over every position of any geometry type
+export const getGeometryBoundingBox = (geometry: Geometry): BoundingBox | null => {
+  const positions = allPositions(geometry);
+  if (positions.length === 0) return null;
+  return unionBoundingBox(positions.map(([lon, lat]): BoundingBox => [lon, lat, lon, lat]));
+};
+
+// Spherical ring area in km², after Chamberlain and Duquette
+const ringAreaKm2 = (ring: Ring): number => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[i + 1];
+    total += toRadians(lon2 - lon1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2);
+};
+
+// Area of the polygonal parts with holes subtracted; null when there are none
+export const getAreaKm2 = (geometry: Geometry): number | null => {
+  const polygonal = toPolygonalGeometry(geometry);
+  if (!polygonal) return null;
+  return getPolygons(polygonal).reduce((area, [outer, ...holes]) =>
+    area + ringAreaKm2(outer) - holes.reduce((holeArea, hole) => holeArea + ringAreaKm2(hole), 0), 0);
+};
+
+// Planar signed area and area-weighted centre of a ring, in degrees
+const ringMoments = (ring: Ring): { area: number; x: number; y: number } => {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    x += (x0 + x1) * cross;
+    y += (y0 + y1) * cross;
+  }
+  return { area: area / 2, x, y };
+};
+
+/**
+ * Area-weighted centroid of the polygonal parts, with holes subtracted. Falls
+ * back to the mean position for points and lines. Not guaranteed to lie inside
+ * concave or multi-part shapes.
+ */
+export const getCentroid = (geometry: Geometry): Position | null => {
+  const polygonal = toPolygonalGeometry(geometry);
+  if (polygonal) {
+    let area = 0;
+    let x = 0;
+    let y = 0;
+    getPolygons(polygonal).forEach(polygon => polygon.forEach((ring, index) => {
+      const moments = ringMoments(ring);
+      // Outer rings add and holes subtract, whatever their winding order
+      const sign = (index === 0 ? 1 : -1) * Math.sign(moments.area);
+      area += sign * moments.area;
+      x += sign * moments.x;
+      y += sign * moments.y;
+    }));
+    if (area !== 0) return [x / (6 * area), y / (6 * area)];
+  }
+
+  const positions = allPositions(geometry);
+  if (positions.length === 0) return null;
+  return [
+    positions.reduce((sum, [lon]) => sum + lon, 0) / positions.length,
+    positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length
+  ];
+};
@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { JsonWebKey, KeyObject, createPublicKey, verify } from 'crypto';
+
+// Constants
+const AUTH_JWKS_URL = process.env.AUTH_JWKS_URL;
+const AUTH_ISSUER = process.env.AUTH_ISSUER;
+// Comma-separated; a token is accepted when its `aud` contains any of them
+const AUTH_AUDIENCES = (process.env.AUTH_AUDIENCE || '')
+  .split(',')
+  .map(audience => audience.trim())
+  .filter(audience => audience);
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// An unknown key id refetches the key set at most this often, so forged kids cannot hammer the issuer
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+// Tolerated difference between our clock and the issuer's for exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+
+const ALGORITHMS: { [alg: string]: { hash: string; dsaEncoding?: 'ieee-p1363' } } = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  // JWS carries ECDSA signatures as raw r||s rather than DER
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' }
+};
+
+// Types
+export interface JwtClaims {
+  sub: string;
+  exp: number;
+  iss?: string;
+  aud?: string | string[];
+  nbf?: number;
+  scope?: string;
+  [claim: string]: any;
+}
+
+interface JwksCache {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+// In-memory key set per container
+let jwksCache: JwksCache | null = null;
+let jwksRequest: Promise<JwksCache> | null = null;
+
+// Utility functions
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const fetchJwks = (): Promise<JwksCache> => {
+  if (!AUTH_JWKS_URL) {
+    return Promise.reject(new Error('AUTH_JWKS_URL is not configured'));
+  }
+  // Concurrent cold requests share one fetch
+  jwksRequest = jwksRequest || axios.get(AUTH_JWKS_URL, { timeout: 5000 })
+    .then(response => {
+      const keys = new Map<string, KeyObject>();
+      for (const jwk of (response.data?.keys || []) as (JsonWebKey & { kid?: string; use?: string })[]) {
+        if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+        try {
+          keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          console.warn(`Skipping unusable JWKS key ${jwk.kid}:`, error);
+        }
+      }
+      jwksCache = { keys, fetchedAt: Date.now() };
+      return jwksCache;
+    })
+    .finally(() => {
+      jwksRequest = null;
+    });
+  return jwksRequest;
+};
+
+/**
+ * Public key for a key id from the cached key set. The set is refetched when it
+ * is stale, or when the kid is unknown since the issuer may have rotated keys.
+ */
+const getSigningKey = async (kid: string): Promise<KeyObject> => {
+  let jwks = jwksCache && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS ? jwksCache : await fetchJwks();
+  if (!jwks.keys.has(kid) && Date.now() - jwks.fetchedAt >= JWKS_REFETCH_INTERVAL_MS) {
+    jwks = await fetchJwks();
+  }
+
+  const key = jwks.keys.get(kid);
+  if (!key) {
+    throw new Error(`Unknown signing key: ${kid}`);
+  }
+  return key;
+};
+
+const hasAudience = (aud: string | string[] | undefined): boolean => {
+  if (AUTH_AUDIENCES.length === 0) return true;
+  const audiences = Array.isArray(aud) ? aud : aud ? [aud] : [];
+  return audiences.some(audience => AUTH_AUDIENCES.includes(audience));
+};
+
+/**
+ * Verifies a JWT access token against the issuer's JWKS and returns its claims.
+ * Checks the signature, expiry, not-before, issuer and audience; throws when
+ * any check fails, with a message that is safe to log but not to return.
+ */
+export const verifyJwt = async (token: string): Promise<JwtClaims> => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  let header: any;
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(segments[0]);
+    claims = decodeSegment(segments[1]);
+  } catch (error) {
+    throw new Error('Malformed token');
+  }
+
+  // The algorithm is pinned by our list, never taken on trust, so 'none' and HMAC are rejected
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+  if (typeof header.kid !== 'string') {
+    throw new Error('Token has no key id');
+  }
+
+  const key = await getSigningKey(header.kid);
+  const valid = verify(
+    algorithm.hash,
+    Buffer.from(`${segments[0]}.${segments[1]}`),
+    algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+    Buffer.from(segments[2], 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= now) {
+    throw new Error('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('Token is not yet valid');
+  }
+  if (AUTH_ISSUER && claims.iss !== AUTH_ISSUER) {
+    throw new Error(`Unexpected token issuer: ${claims.iss}`);
+  }
+  if (!hasAudience(claims.aud)) {
+    throw new Error('Unexpected token audience');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('Token has no subject');
+  }
+  return claims;
+};
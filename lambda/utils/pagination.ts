@@ -0,0 +1,267 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import axios, { AxiosError } from 'axios';
+import { EndpointHandler, createErrorResponse } from './proxy';
+import { CONTROL_PARAMS, resolveQueryParams, addCursorMeta } from './cursor';
+import { getCollection, setCollection } from './collections';
+import { resolveResponseFormat, createFormattedResponse, unsupportedFormatMessage } from './responseFormat';
+import { CollectionQuery, parseCollectionQuery, applyCollectionQuery } from './query';
+
+// Constants
+export const MAX_RECORDS_LIMIT = parseInt(process.env.MAX_RECORDS_LIMIT || '5000', 10);
+export const PAGE_CONCURRENCY = parseInt(process.env.PAGE_CONCURRENCY || '5', 10);
+
+// Types
+export interface CollectionEndpointOptions {
+  // Upstream URL with a `:param` placeholder, e.g. '.../vessel-port-calls/:imo'
+  baseUrl: string;
+  pathParam: string;
+  // Dot-separated path to the record array, e.g. 'data.port_calls'
+  collectionPath: string;
+  missingParamMessage: string;
+}
+
+export interface FetchAllOptions {
+  collectionPath: string;
+  concurrency?: number;
+}
+
+// Runs `task` over every item with at most `concurrency` in flight, preserving order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+};
+
+// Fetches a single upstream page at the given offset and returns its response body
+export const fetchPage = async (
+  targetUrl: URL,
+  accessToken: string,
+  offset: number,
+  limit?: number
+): Promise<any> => {
+  const pageUrl = new URL(targetUrl.toString());
+  pageUrl.searchParams.set('offset', offset.toString());
+  if (limit) {
+    pageUrl.searchParams.set('limit', limit.toString());
+  }
+
+  const pageResponse = await axios.get(pageUrl.toString(), {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+  return pageResponse.data;
+};
+
+/**
+ * Fetches every page after the initial response and merges the records into it.
+ *
+ * Pages are requested with bounded concurrency and appended in offset order. The
+ * merged response's `meta.offset`, `meta.limit` and `meta.total_count` describe
+ * the combined result rather than the first upstream page.
+ */
+export const fetchAllPages = async (
+  targetUrl: URL,
+  accessToken: string,
+  responseData: any,
+  options: FetchAllOptions
+): Promise<any> => {
+  const totalCount: number = responseData.meta.total_count;
+  const limit: number = responseData.meta.limit;
+  const startOffset: number = responseData.meta.offset || 0;
+
+  const offsets: number[] = [];
+  for (let offset = startOffset + limit; offset < totalCount; offset += limit) {
+    offsets.push(offset);
+  }
+
+  const pages = await mapWithConcurrency(offsets, options.concurrency || PAGE_CONCURRENCY, async offset => {
+    const page = await fetchPage(targetUrl, accessToken, offset, limit);
+    return getCollection(page, options.collectionPath) || [];
+  });
+
+  const records = [
+    ...(getCollection(responseData, options.collectionPath) || []),
+    ...pages.flat()
+  ];
+  setCollection(responseData, options.collectionPath, records);
+
+  responseData.meta.offset = startOffset;
+  responseData.meta.limit = records.length;
+  responseData.meta.total_count = startOffset + records.length;
+  return responseData;
+};
+
+// Upstream URL with every query parameter forwarded except our own controls
+export const buildTargetUrl = (
+  baseUrl: string,
+  queryParams: { [key: string]: string | undefined },
+  excludedParams: string[] = CONTROL_PARAMS
+): URL => {
+  const targetUrl = new URL(baseUrl);
+  Object.entries(queryParams).forEach(([key, value]) => {
+    if (value !== undefined && !excludedParams.includes(key)) {
+      targetUrl.searchParams.append(key, value);
+    }
+  });
+  return targetUrl;
+};
+
+export interface CollectionRecords {
+  records: any[];
+  total_count: number;
+  // True when fewer than total_count records were fetched because of maxRecords
+  truncated: boolean;
+}
+
+/**
+ * Fetches a collection's records for one path parameter value, following pages
+ * from offset 0 up to `maxRecords`. Used where several collections are combined
+ * server-side rather than proxied page by page.
+ */
+export const fetchCollectionRecords = async (
+  options: CollectionEndpointOptions,
+  paramValue: string,
+  queryParams: { [key: string]: string | undefined },
+  accessToken: string,
+  maxRecords: number = MAX_RECORDS_LIMIT
+): Promise<CollectionRecords> => {
+  const targetUrl = buildTargetUrl(
+    options.baseUrl.replace(`:${options.pathParam}`, encodeURIComponent(paramValue)),
+    queryParams,
+    [...CONTROL_PARAMS, 'offset']
+  );
+
+  const firstPage = await fetchPage(targetUrl, accessToken, 0);
+  const firstRecords = getCollection(firstPage, options.collectionPath) || [];
+  const totalCount: number = firstPage.meta?.total_count ?? firstRecords.length;
+  const limit: number = firstPage.meta?.limit || firstRecords.length;
+
+  const offsets: number[] = [];
+  for (let offset = limit; limit > 0 && offset < Math.min(totalCount, maxRecords); offset += limit) {
+    offsets.push(offset);
+  }
+
+  const pages = await mapWithConcurrency(offsets, PAGE_CONCURRENCY, async offset => {
+    const page = await fetchPage(targetUrl, accessToken, offset, limit);
+    return getCollection(page, options.collectionPath) || [];
+  });
+
+  const records = [...firstRecords, ...pages.flat()].slice(0, maxRecords);
+  return {
+    records,
+    total_count: totalCount,
+    truncated: totalCount > records.length
+  };
+};
+
+// Applies filter/sort/fields to the merged collection and reports the match count in meta
+const applyQueryToResponse = (responseData: any, collectionPath: string, query: CollectionQuery | null): void => {
+  const records = getCollection(responseData, collectionPath);
+  if (!query || !records) return;
+
+  const result = applyCollectionQuery(records, query);
+  setCollection(responseData, collectionPath, result);
+  responseData.meta.matched_count = result.length;
+};
+
+/**
+ * Builds an endpoint handler that proxies an offset-paginated Polestar collection.
+ *
+ * Responses carry signed `next_cursor`/`prev_cursor` tokens in `meta` and are
+ * rendered as JSON, CSV, NDJSON or GeoJSON by content negotiation. With
+ * `get_all=true` every page is fetched and merged, up to MAX_RECORDS_LIMIT.
+ * `filter`, `sort` and `fields` are applied to the records after merging.
+ */
+export const createCollectionHandler = (options: CollectionEndpointOptions): EndpointHandler => async (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const paramValue = event.pathParameters?.[options.pathParam];
+  if (!paramValue) {
+    return createErrorResponse(400, { error: options.missingParamMessage });
+  }
+
+  const queryParams = await resolveQueryParams(event);
+  if (!queryParams) {
+    return createErrorResponse(400, { error: 'Invalid cursor' });
+  }
+  const getAll = queryParams.get_all === 'true';
+
+  const format = resolveResponseFormat(event);
+  if (!format) {
+    return createErrorResponse(400, { error: 'Invalid format', message: unsupportedFormatMessage });
+  }
+
+  const collectionQuery = parseCollectionQuery(event);
+  if (typeof collectionQuery === 'string') {
+    return createErrorResponse(400, { error: 'Invalid query', message: collectionQuery });
+  }
+
+  const targetUrl = buildTargetUrl(
+    options.baseUrl.replace(`:${options.pathParam}`, encodeURIComponent(paramValue)),
+    queryParams
+  );
+
+  // Make initial API call
+  const initialResponse = await axios.get(targetUrl.toString(), {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+  const responseData = initialResponse.data;
+  if (!responseData.meta) {
+    responseData.meta = {};
+  }
+  responseData.meta.status_code = initialResponse.status;
+  responseData.meta.status_message = initialResponse.statusText;
+
+  // If get_all is false or no pagination info, return initial response
+  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
+    await addCursorMeta(responseData.meta, event.path, queryParams);
+    applyQueryToResponse(responseData, options.collectionPath, collectionQuery);
+    return createFormattedResponse(initialResponse.status, responseData, format, options.collectionPath);
+  }
+
+  const totalCount = responseData.meta.total_count;
+
+  // Check if total count exceeds maximum limit
+  if (totalCount > MAX_RECORDS_LIMIT) {
+    return createErrorResponse(413, {
+      error: 'Request exceeds maximum record limit',
+      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results, page through them with meta.next_cursor, or request an export job with POST /exports.`
+    });
+  }
+
+  try {
+    await fetchAllPages(targetUrl, accessToken, responseData, {
+      collectionPath: options.collectionPath
+    });
+    await addCursorMeta(responseData.meta, event.path, queryParams);
+    applyQueryToResponse(responseData, options.collectionPath, collectionQuery);
+    return createFormattedResponse(initialResponse.status, responseData, format, options.collectionPath);
+  } catch (error) {
+    console.error('Error fetching additional records:', error);
+    if (error instanceof AxiosError) {
+      return createErrorResponse(error.response?.status || 500, {
+        error: 'Error fetching additional records',
+        message: error.message
+      });
+    }
+    return createErrorResponse(500, {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred while fetching additional records'
+    });
+  }
+};
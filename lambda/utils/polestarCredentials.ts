@@ -0,0 +1,40 @@
+import { getSecretString, invalidateSecret } from './secrets';
+
+// Constants
+const POLESTAR_SECRET_ARN = process.env.POLESTAR_SECRET_ARN!;
+
+// Types
+export interface PolestarCredentials {
+  username: string;
+  api_key: string;
+}
+
+export const getPolestarCredentials = async (): Promise<PolestarCredentials> => {
+  const { username, api_key } = JSON.parse(await getSecretString(POLESTAR_SECRET_ARN));
+  if (!username || !api_key) {
+    throw new Error('Polestar secret is missing username or api_key');
+  }
+  return { username, api_key };
+};
+
+// Checked structurally, since callers may bundle their own copy of axios
+const isUnauthorized = (error: any): boolean =>
+  Boolean(error?.isAxiosError) && error.response?.status === 401;
+
+/**
+ * Runs a Polestar request with the cached credentials. A 401 usually means the
+ * secret was rotated since it was cached, so the cache is dropped and the
+ * request is retried once with the current value.
+ */
+export const withPolestarCredentials = async <T>(
+  request: (credentials: PolestarCredentials) => Promise<T>
+): Promise<T> => {
+  try {
+    return await request(await getPolestarCredentials());
+  } catch (error) {
+    if (!isUnauthorized(error)) throw error;
+    console.warn('Polestar rejected the cached credentials, refreshing and retrying');
+    invalidateSecret(POLESTAR_SECRET_ARN);
+    return request(await getPolestarCredentials());
+  }
+};
@@ -0,0 +1,49 @@
+// Types
+export interface PrefixEntry<T> {
+  key: string;
+  item: T;
+}
+
+export interface PrefixIndex<T> {
+  size: number;
+  // Entries whose key starts with the prefix, in key order; exact matches come first
+  search: (prefix: string) => PrefixEntry<T>[];
+}
+
+// Index of the first entry whose key is not less than `prefix`
+const lowerBound = <T>(entries: PrefixEntry<T>[], prefix: string): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (entries[middle].key < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Builds a static prefix index: entries are sorted once by key, and a lookup
+ * is a binary search for the first key at or after the prefix followed by a
+ * scan over the keys that share it.
+ */
+export const createPrefixIndex = <T>(entries: PrefixEntry<T>[]): PrefixIndex<T> => {
+  const sorted = entries
+    .filter(entry => entry.key)
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  return {
+    size: sorted.length,
+    search: (prefix: string): PrefixEntry<T>[] => {
+      if (!prefix) return [];
+      const results: PrefixEntry<T>[] = [];
+      for (let i = lowerBound(sorted, prefix); i < sorted.length && sorted[i].key.startsWith(prefix); i++) {
+        results.push(sorted[i]);
+      }
+      return results;
+    }
+  };
+};
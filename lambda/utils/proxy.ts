@@ -0,0 +1,311 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import axios, { AxiosError } from 'axios';
+import { getCorsHeaders, createOptionsResponse } from './cors';
+import { CachePolicy, withResponseCache } from './cache';
+import { SESSION_MODE_ENABLED, getSessionId, hasCsrfHeader, resolveSessionTokens } from './session';
+import { Role, hasRole, resolveRole } from './roles';
+import { writeAuditRecord } from './audit';
+
+// Types
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type EndpointHandler = (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+) => Promise<APIGatewayProxyResult>;
+
+export interface EndpointConfig {
+  method: HttpMethod;
+  // Route template, e.g. '/voyage-insights/vessel-port-calls/{imo}'
+  path: string;
+  handler: EndpointHandler;
+  // Defaults to true; public routes receive an empty access token
+  requiresAuth?: boolean;
+  // GET responses are cached per tenant when a policy is set
+  cache?: CachePolicy;
+  // Minimum role of the caller; denials are audited
+  role?: Role;
+  // Audit every call, e.g. for destructive actions
+  audit?: boolean;
+}
+
+export interface ErrorBody {
+  error: string;
+  message?: string;
+  details?: unknown;
+}
+
+// Caller verified by the API Gateway authorizer
+export interface Principal {
+  id: string;
+  tenantId: string | null;
+  claims: { [claim: string]: any };
+}
+
+interface CompiledRoute {
+  endpoint: EndpointConfig;
+  regex: RegExp;
+  paramNames: string[];
+}
+
+interface RouteMatch {
+  endpoint: EndpointConfig;
+  params: { [name: string]: string };
+}
+
+// Utility functions
+export const extractAccessToken = (event: APIGatewayProxyEvent): string | null => {
+  const headers = event.headers || {};
+  let accessToken = headers['Authorization'] || headers['authorization'];
+  if (!accessToken && headers['access-token']) {
+    accessToken = headers['access-token'];
+  }
+  if (accessToken?.startsWith('Bearer ')) {
+    return accessToken.slice(7);
+  }
+  return accessToken || null;
+};
+
+/**
+ * Access token for a request: the Authorization or access-token header, or in
+ * session mode the token held by the session cookie's server-side session.
+ */
+export const resolveAccessToken = async (event: APIGatewayProxyEvent): Promise<string | null> => {
+  const headerToken = extractAccessToken(event);
+  if (headerToken || !SESSION_MODE_ENABLED) return headerToken;
+  const tokens = await resolveSessionTokens(event);
+  return tokens ? tokens.access_token : null;
+};
+
+/**
+ * Principal set by the request authorizer, or null on public routes and when
+ * the authorizer is not enabled for the stage.
+ */
+export const getPrincipal = (event: APIGatewayProxyEvent): Principal | null => {
+  const authorizer = event.requestContext?.authorizer;
+  if (!authorizer?.principalId) return null;
+
+  let claims: { [claim: string]: any } = {};
+  try {
+    claims = JSON.parse(authorizer.claims || '{}');
+  } catch (error) {
+    // Claims are informational; the authorizer already verified the token
+  }
+  return {
+    id: authorizer.principalId,
+    tenantId: authorizer.tenant_id || null,
+    claims
+  };
+};
+
+// Header tokens are not sent by browsers on their own, so only cookie-authenticated requests need the check
+const isCookieRequestWithoutCsrfHeader = (event: APIGatewayProxyEvent): boolean => {
+  if (!SESSION_MODE_ENABLED || event.httpMethod === 'GET' || extractAccessToken(event) || !getSessionId(event)) {
+    return false;
+  }
+  return !hasCsrfHeader(event);
+};
+
+/**
+ * The event with a base64-encoded body decoded to text. API Gateway encodes
+ * request bodies because every media type is configured as binary, so that
+ * vector tiles are returned as binary whatever the client's Accept header.
+ */
+export const decodeRequestBody = (event: APIGatewayProxyEvent): APIGatewayProxyEvent =>
+  event.isBase64Encoded && event.body
+    ? { ...event, body: Buffer.from(event.body, 'base64').toString('utf8'), isBase64Encoded: false }
+    : event;
+
+export const getRequestOrigin = (event: APIGatewayProxyEvent): string | undefined =>
+  event.headers?.['origin'] || event.headers?.['Origin'];
+
+export const createResponse = (
+  statusCode: number,
+  body: any,
+  headers: { [key: string]: string } = {},
+  origin?: string
+): APIGatewayProxyResult => ({
+  statusCode,
+  headers: {
+    'Content-Type': 'application/json',
+    ...getCorsHeaders(origin),
+    ...headers
+  },
+  body: JSON.stringify(body)
+});
+
+export const createErrorResponse = (
+  statusCode: number,
+  body: ErrorBody,
+  origin?: string
+): APIGatewayProxyResult => createResponse(statusCode, body, {}, origin);
+
+export const handleError = (error: unknown, context: string, origin?: string): APIGatewayProxyResult => {
+  console.error(`Error in ${context}:`, error);
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    return createErrorResponse(axiosError.response?.status || 500, {
+      error: 'API request failed',
+      message: axiosError.message,
+      details: axiosError.response?.data
+    }, origin);
+  }
+
+  return createErrorResponse(500, { error: 'Internal server error' }, origin);
+};
+
+// Router
+const escapeRegex = (value: string): string => value.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+
+const compilePath = (path: string): { regex: RegExp; paramNames: string[] } => {
+  const paramNames: string[] = [];
+  const pattern = path
+    .replace(/\/+$/, '')
+    .split(/({[^}]+})/)
+    .map(part => {
+      const param = part.match(/^{([^}]+)}$/);
+      if (param) {
+        paramNames.push(param[1]);
+        return '([^/]+?)';
+      }
+      return escapeRegex(part);
+    })
+    .join('');
+
+  return { regex: new RegExp(`^${pattern}/?$`), paramNames };
+};
+
+// Null when a parameter is not valid percent-encoding, e.g. '%E0%A4%A', so the path matches no route
+const extractParams = (match: RegExpExecArray, paramNames: string[]): { [name: string]: string } | null => {
+  const params: { [name: string]: string } = {};
+  try {
+    paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+  } catch (error) {
+    if (error instanceof URIError) return null;
+    throw error;
+  }
+  return params;
+};
+
+const compileRoute = (endpoint: EndpointConfig): CompiledRoute => ({
+  endpoint,
+  ...compilePath(endpoint.path)
+});
+
+// Matches a concrete path against a route template, returning its path parameters
+export const matchPath = (template: string, path: string): { [name: string]: string } | null => {
+  const { regex, paramNames } = compilePath(template);
+  const match = regex.exec(path);
+  return match ? extractParams(match, paramNames) : null;
+};
+
+const matchRoutes = (routes: CompiledRoute[], path: string): RouteMatch[] =>
+  routes
+    .map(route => {
+      const match = route.regex.exec(path);
+      const params = match && extractParams(match, route.paramNames);
+      return params ? { endpoint: route.endpoint, params } : null;
+    })
+    .filter((match): match is RouteMatch => match !== null)
+    // Static segments win over path parameters, e.g. /zones/containing over /zones/{id}
+    .sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+
+/**
+ * Builds an API Gateway handler that routes requests to the given endpoints.
+ *
+ * Paths are matched in full against the route templates, path parameters are
+ * merged into `event.pathParameters`, and a path that matches with a different
+ * method returns 405. Routes require an access token, from a header or in session
+ * mode the session cookie, unless `requiresAuth` is false, and GET routes with a
+ * `cache` policy are served through the response cache. Routes with a `role`
+ * reject callers below it with 403, and denials and calls to `audit` routes
+ * are written to the audit table.
+ */
+export const createRouter = (endpoints: EndpointConfig[], context: string) => {
+  const routes = endpoints.map(compileRoute);
+
+  return async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const origin = getRequestOrigin(event);
+
+    // Handle OPTIONS requests for CORS preflight
+    if (event.httpMethod === 'OPTIONS') {
+      return createOptionsResponse(origin);
+    }
+
+    try {
+      const matches = matchRoutes(routes, event.path);
+      if (matches.length === 0) {
+        return createErrorResponse(404, { error: 'Endpoint not found' }, origin);
+      }
+
+      const match = matches.find(m => m.endpoint.method === event.httpMethod);
+      if (!match) {
+        const allowed = Array.from(new Set(matches.map(m => m.endpoint.method)));
+        return createResponse(405, {
+          error: 'Method not allowed',
+          message: `Allowed methods: ${allowed.join(', ')}`
+        }, { Allow: allowed.join(', ') }, origin);
+      }
+
+      const routedEvent: APIGatewayProxyEvent = {
+        ...decodeRequestBody(event),
+        pathParameters: { ...match.params, ...(event.pathParameters || {}) }
+      };
+
+      if (match.endpoint.requiresAuth !== false && isCookieRequestWithoutCsrfHeader(event)) {
+        return createErrorResponse(403, {
+          error: 'X-Requested-With header is required for session requests'
+        }, origin);
+      }
+
+      const accessToken = match.endpoint.requiresAuth === false ? '' : await resolveAccessToken(event);
+      if (accessToken === null) {
+        return createErrorResponse(401, { error: 'Access token is required' }, origin);
+      }
+
+      const principal = getPrincipal(event);
+      const role = match.endpoint.role || match.endpoint.audit ? await resolveRole(event, principal) : null;
+      if (match.endpoint.role && !hasRole(role, match.endpoint.role)) {
+        await writeAuditRecord(event, {
+          outcome: 'denied',
+          principal,
+          role,
+          status_code: 403,
+          reason: `Requires role ${match.endpoint.role}`
+        });
+        return createErrorResponse(403, {
+          error: 'Forbidden',
+          message: `This action requires the ${match.endpoint.role} role`
+        }, origin);
+      }
+
+      const execute = () => match.endpoint.handler(routedEvent, accessToken);
+      if (match.endpoint.cache && event.httpMethod === 'GET') {
+        return await withResponseCache(routedEvent, accessToken, match.endpoint.cache, getCorsHeaders(origin), execute);
+      }
+      if (!match.endpoint.audit) {
+        return await execute();
+      }
+
+      let response: APIGatewayProxyResult;
+      try {
+        response = await execute();
+      } catch (error) {
+        await writeAuditRecord(event, { outcome: 'failed', principal, role, status_code: 500 });
+        throw error;
+      }
+      await writeAuditRecord(event, {
+        outcome: response.statusCode < 400 ? 'succeeded' : 'failed',
+        principal,
+        role,
+        status_code: response.statusCode
+      });
+      return response;
+    } catch (error) {
+      return handleError(error, context, origin);
+    }
+  };
+};
@@ -0,0 +1,167 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// Types
+type FilterOperator = '>=' | '<=' | '!=' | '>' | '<' | '=' | '~';
+
+interface FilterExpression {
+  field: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+export interface CollectionQuery {
+  filters: FilterExpression[];
+  sort: SortKey[];
+  fields: string[];
+}
+
+// Constants
+// Longest operators first, so '>=' is not read as '>'
+const FILTER_PATTERN = /^([A-Za-z0-9_.]+)\s*(>=|<=|!=|>|<|=|~)\s*(.*)$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+// Parsing
+const getParamValues = (event: APIGatewayProxyEvent, name: string): string[] => {
+  const values = event.multiValueQueryStringParameters?.[name] ||
+    (event.queryStringParameters?.[name] !== undefined ? [event.queryStringParameters[name]!] : []);
+  return values.filter(value => value.trim() !== '');
+};
+
+const splitList = (values: string[], separator: string): string[] =>
+  values.flatMap(value => value.split(separator)).map(part => part.trim()).filter(part => part);
+
+/**
+ * Parses `filter`, `sort` and `fields` from the request. Filters may be repeated
+ * or separated with `;`, e.g. `filter=duration_hours>12;port_name~Rotterdam`.
+ * Sort keys and fields are comma-separated; `-` before a sort key reverses it.
+ * Returns null when no query option was given, or an error message when one is invalid.
+ */
+export const parseCollectionQuery = (event: APIGatewayProxyEvent): CollectionQuery | string | null => {
+  const filterValues = splitList(getParamValues(event, 'filter'), ';');
+  const sortValues = splitList(getParamValues(event, 'sort'), ',');
+  const fieldValues = splitList(getParamValues(event, 'fields'), ',');
+  if (filterValues.length === 0 && sortValues.length === 0 && fieldValues.length === 0) {
+    return null;
+  }
+
+  const filters: FilterExpression[] = [];
+  for (const expression of filterValues) {
+    const match = expression.match(FILTER_PATTERN);
+    if (!match) {
+      return `Invalid filter expression "${expression}". Use field<op>value with one of: >=, <=, !=, >, <, =, ~`;
+    }
+    filters.push({ field: match[1], operator: match[2] as FilterOperator, value: match[3].trim() });
+  }
+
+  const sort = sortValues.map(key => ({
+    field: key.replace(/^[-+]/, ''),
+    descending: key.startsWith('-')
+  }));
+
+  return { filters, sort, fields: fieldValues };
+};
+
+// Evaluation
+const getField = (record: any, field: string): any =>
+  field.split('.').reduce((current, key) => current?.[key], record);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const toTime = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+// Compares numerically, then as ISO dates, then as case-insensitive strings
+const compareValues = (a: unknown, b: unknown): number => {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+
+  const timeA = toTime(a);
+  const timeB = toTime(b);
+  if (timeA !== null && timeB !== null) return timeA - timeB;
+
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+};
+
+const matchesFilter = (record: any, filter: FilterExpression): boolean => {
+  const value = getField(record, filter.field);
+  if (filter.operator === '~') {
+    return value !== null && value !== undefined &&
+      String(value).toLowerCase().includes(filter.value.toLowerCase());
+  }
+  if (value === null || value === undefined) {
+    return filter.operator === '!=';
+  }
+
+  const comparison = compareValues(value, filter.value);
+  switch (filter.operator) {
+    case '=': return comparison === 0;
+    case '!=': return comparison !== 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+  }
+};
+
+const projectRecord = (record: any, fields: string[]): any => {
+  const projected: any = {};
+  fields.forEach(field => {
+    const value = getField(record, field);
+    if (value === undefined) return;
+
+    const keys = field.split('.');
+    let target = projected;
+    keys.slice(0, -1).forEach(key => {
+      target[key] = target[key] && typeof target[key] === 'object' ? target[key] : {};
+      target = target[key];
+    });
+    target[keys[keys.length - 1]] = value;
+  });
+  return projected;
+};
+
+/**
+ * Applies filters, then sorting, then field projection to a collection.
+ * Records missing a sort field sort last regardless of direction.
+ */
+export const applyCollectionQuery = (records: any[], query: CollectionQuery): any[] => {
+  let result = records.filter(record => query.filters.every(filter => matchesFilter(record, filter)));
+
+  if (query.sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, descending } of query.sort) {
+        const valueA = getField(a, field);
+        const valueB = getField(b, field);
+        const missingA = valueA === null || valueA === undefined;
+        const missingB = valueB === null || valueB === undefined;
+        if (missingA || missingB) {
+          if (missingA !== missingB) return missingA ? 1 : -1;
+          continue;
+        }
+
+        const comparison = compareValues(valueA, valueB);
+        if (comparison !== 0) return descending ? -comparison : comparison;
+      }
+      return 0;
+    });
+  }
+
+  if (query.fields.length > 0) {
+    result = result.map(record => projectRecord(record, query.fields));
+  }
+  return result;
+};
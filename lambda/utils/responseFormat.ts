@@ -0,0 +1,93 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createResponse } from './proxy';
+import { getCollection, findPrimaryCollectionPath } from './collections';
+import { toCsv, toNdjson, toFeatureCollection } from './formats';
+
+// Types
+export type ResponseFormat = 'json' | 'csv' | 'ndjson' | 'geojson';
+
+// Constants
+const CONTENT_TYPES: { [format in ResponseFormat]: string } = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  geojson: 'application/geo+json'
+};
+
+const ACCEPT_FORMATS: { [mediaType: string]: ResponseFormat } = {
+  'application/json': 'json',
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/geo+json': 'geojson'
+};
+
+// Picks the response format from `format=` or, failing that, the Accept header.
+// Returns null for an unsupported `format=` value; unknown Accept types fall back to JSON.
+export const resolveResponseFormat = (event: APIGatewayProxyEvent): ResponseFormat | null => {
+  const formatParam = event.queryStringParameters?.format;
+  if (formatParam) {
+    return formatParam in CONTENT_TYPES ? formatParam as ResponseFormat : null;
+  }
+
+  const accept = event.headers?.['Accept'] || event.headers?.['accept'] || '';
+  const mediaTypes = accept
+    .split(',')
+    .map(part => {
+      const [mediaType, ...params] = part.trim().split(';');
+      const quality = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { mediaType: mediaType.trim().toLowerCase(), q: quality ? parseFloat(quality.slice(2)) : 1 };
+    })
+    .filter(entry => entry.mediaType in ACCEPT_FORMATS && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return mediaTypes.length > 0 ? ACCEPT_FORMATS[mediaTypes[0].mediaType] : 'json';
+};
+
+export const unsupportedFormatMessage = `format must be one of: ${Object.keys(CONTENT_TYPES).join(', ')}`;
+
+/**
+ * Renders a list response in the requested format. JSON returns the body
+ * unchanged; CSV, NDJSON and GeoJSON serialise the primary collection and move
+ * the pagination details from `meta` into X-Total-Count / X-Next-Cursor headers.
+ */
+export const createFormattedResponse = (
+  statusCode: number,
+  responseData: any,
+  format: ResponseFormat,
+  collectionPath?: string
+): APIGatewayProxyResult => {
+  const varyHeaders = { Vary: 'Accept' };
+  if (format === 'json') {
+    return createResponse(statusCode, responseData, varyHeaders);
+  }
+
+  const path = collectionPath || findPrimaryCollectionPath(responseData);
+  const records = (path && getCollection(responseData, path)) || [];
+  const meta = responseData?.meta || {};
+
+  const headers: { [key: string]: string } = {
+    ...varyHeaders,
+    'Content-Type': CONTENT_TYPES[format]
+  };
+  if (meta.total_count !== undefined) headers['X-Total-Count'] = String(meta.total_count);
+  if (meta.next_cursor) headers['X-Next-Cursor'] = meta.next_cursor;
+  if (meta.prev_cursor) headers['X-Prev-Cursor'] = meta.prev_cursor;
+
+  let body: string;
+  switch (format) {
+    case 'csv':
+      body = toCsv(records);
+      break;
+    case 'ndjson':
+      body = toNdjson(records);
+      break;
+    case 'geojson':
+      body = JSON.stringify({ ...toFeatureCollection(records), meta });
+      break;
+  }
+
+  return {
+    ...createResponse(statusCode, null, headers),
+    body
+  };
+};
@@ -0,0 +1,90 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { timingSafeEqual } from 'crypto';
+import { Principal } from './proxy';
+import { getSecretString } from './secrets';
+
+// Types
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Constants
+// Ordered from least to most privileged; a role includes every role before it
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+// Token claim holding the caller's roles, as an array or a space- or comma-separated string
+const AUTH_ROLE_CLAIM = process.env.AUTH_ROLE_CLAIM || 'roles';
+// Break-glass key accepted in the X-Admin-Key header, granting admin
+const ADMIN_KEY_SECRET_ARN = process.env.ADMIN_KEY_SECRET_ARN;
+
+// Utility functions
+const toRole = (value: unknown): Role | null => {
+  const role = String(value).trim().toLowerCase();
+  return (ROLES as string[]).includes(role) ? role as Role : null;
+};
+
+/**
+ * API key id to role, e.g. {"abc123":"operator"}; other valid keys are viewers.
+ * A malformed setting or unknown role is logged and ignored rather than
+ * failing every request the function serves.
+ */
+const parseApiKeyRoles = (value: string): { [apiKeyId: string]: Role } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    console.error('API_KEY_ROLES is not valid JSON, ignoring it:', error);
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.error('API_KEY_ROLES must be a JSON object of API key ids to roles, ignoring it');
+    return {};
+  }
+
+  const roles: { [apiKeyId: string]: Role } = {};
+  Object.entries(parsed).forEach(([apiKeyId, role]) => {
+    const validRole = toRole(role);
+    if (validRole) {
+      roles[apiKeyId] = validRole;
+    } else {
+      console.error(`API_KEY_ROLES has unknown role ${JSON.stringify(role)} for key ${apiKeyId}; expected one of ${ROLES.join(', ')}`);
+    }
+  });
+  return roles;
+};
+
+const API_KEY_ROLES = parseApiKeyRoles(process.env.API_KEY_ROLES || '{}');
+
+const highestRole = (roles: (Role | null)[]): Role | null =>
+  roles.reduce<Role | null>((highest, role) =>
+    role && (!highest || ROLES.indexOf(role) > ROLES.indexOf(highest)) ? role : highest, null);
+
+const getClaimRole = (claims: { [claim: string]: any }): Role => {
+  const value = claims[AUTH_ROLE_CLAIM];
+  const values: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,]+/) : [];
+  // A verified caller without a recognised role can still read
+  return highestRole(values.map(toRole)) || 'viewer';
+};
+
+const hasAdminKey = async (event: APIGatewayProxyEvent): Promise<boolean> => {
+  const candidate = event.headers?.['X-Admin-Key'] || event.headers?.['x-admin-key'];
+  if (!candidate || !ADMIN_KEY_SECRET_ARN) return false;
+  const expected = Buffer.from(await getSecretString(ADMIN_KEY_SECRET_ARN));
+  const actual = Buffer.from(candidate);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+/**
+ * The caller's role: the highest granted by the verified token's role claim,
+ * the API key API Gateway validated for the request, or the admin key. Null
+ * when the request carries none of them.
+ */
+export const resolveRole = async (event: APIGatewayProxyEvent, principal: Principal | null): Promise<Role | null> => {
+  const apiKeyId = event.requestContext?.identity?.apiKeyId;
+
+  return highestRole([
+    principal ? getClaimRole(principal.claims) : null,
+    apiKeyId ? API_KEY_ROLES[apiKeyId] || 'viewer' : null,
+    (await hasAdminKey(event)) ? 'admin' : null
+  ]);
+};
+
+export const hasRole = (role: Role | null, required: Role): boolean =>
+  role !== null && ROLES.indexOf(role) >= ROLES.indexOf(required);
@@ -0,0 +1,39 @@
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+
+const secretsClient = new SecretsManagerClient({});
+
+// How long a secret value is reused before Secrets Manager is asked again, so rotations are picked up
+const SECRET_CACHE_TTL_MS = parseInt(process.env.SECRET_CACHE_TTL_SECONDS || '300', 10) * 1000;
+
+// In-memory cache of secret values per container
+const secretCache: { [secretId: string]: { value: Promise<string>; expiresAt: number } } = {};
+
+export const getSecretString = async (secretId: string): Promise<string> => {
+  const cached = secretCache[secretId];
+  if (!cached || cached.expiresAt <= Date.now()) {
+    const value = secretsClient
+      .send(new GetSecretValueCommand({ SecretId: secretId }))
+      .then(response => {
+        if (!response.SecretString) {
+          throw new Error('No secret string found');
+        }
+        return response.SecretString;
+      });
+    const entry = { value, expiresAt: Date.now() + SECRET_CACHE_TTL_MS };
+    secretCache[secretId] = entry;
+
+    // Do not cache failures, so the next request retries
+    value.catch(() => {
+      if (secretCache[secretId] === entry) {
+        delete secretCache[secretId];
+      }
+    });
+  }
+
+  return secretCache[secretId].value;
+};
+
+// Drops a cached secret, e.g. after the upstream rejects it, so the next read fetches the current value
+export const invalidateSecret = (secretId: string): void => {
+  delete secretCache[secretId];
+};
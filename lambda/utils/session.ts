@@ -0,0 +1,199 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DynamoDB } from 'aws-sdk';
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+
+// Initialize DynamoDB client
+const dynamodb = new DynamoDB.DocumentClient();
+const SESSIONS_TABLE = process.env.SESSIONS_TABLE;
+
+// Constants
+// 'session' keeps Polestar tokens server-side behind an httpOnly cookie; 'header' returns them to the browser
+export const SESSION_MODE_ENABLED = process.env.AUTH_SESSION_MODE === 'session';
+// The __Host- prefix makes browsers require Secure, Path=/ and no Domain attribute
+export const SESSION_COOKIE_NAME = '__Host-dp_session';
+const SESSION_TTL_SECONDS = parseInt(process.env.SESSION_TTL_SECONDS || '43200', 10);
+// Lax keeps the cookie off cross-site requests; a portal on another site needs 'None' and its
+// origin listed in ALLOWED_ORIGINS, with the X-Requested-With check guarding against CSRF
+const SESSION_COOKIE_SAME_SITE = process.env.SESSION_COOKIE_SAME_SITE || 'Lax';
+// Access tokens are refreshed when they expire within this window
+const REFRESH_MARGIN_SECONDS = 120;
+// Assumed lifetime of an access token whose expiry cannot be read from it
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_URL = 'https://account-service-api-public.polestar-production.com/v1/refresh-access-token';
+
+// Types
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+interface SessionItem extends SessionTokens {
+  // SHA-256 of the cookie value, so the table never holds a usable session id
+  session_id: string;
+  access_expires_at: number;
+  created_at: number;
+  expires_at: number;
+}
+
+// Utility functions
+const hashSessionId = (sessionId: string): string => createHash('sha256').update(sessionId).digest('hex');
+
+/**
+ * Table key of a session. Unlike the session id it cannot be used as a cookie,
+ * so it is what background work such as exports carries to refer to a session.
+ */
+export const getSessionKey = hashSessionId;
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Expiry of a JWT access token from its `exp` claim. The claim only decides
+ * when to refresh, so it is read without verifying the signature; Polestar
+ * still validates the token on every upstream call.
+ */
+const getAccessTokenExpiry = (accessToken: string): number => {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8'));
+    if (typeof payload.exp === 'number') return payload.exp;
+  } catch (error) {
+    // Not a JWT; fall back to the default lifetime
+  }
+  return now() + DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+};
+
+export const getSessionId = (event: APIGatewayProxyEvent): string | null => {
+  const header = event.headers?.['cookie'] || event.headers?.['Cookie'] || '';
+  const cookie = header
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE_NAME}=`));
+  return cookie ? decodeURIComponent(cookie.slice(SESSION_COOKIE_NAME.length + 1)) || null : null;
+};
+
+// Browsers attach cookies to cross-site requests, but only our own scripts can add a custom header
+export const hasCsrfHeader = (event: APIGatewayProxyEvent): boolean =>
+  Object.keys(event.headers || {}).some(header => header.toLowerCase() === 'x-requested-with');
+
+export const buildSessionCookie = (sessionId: string): string =>
+  `${SESSION_COOKIE_NAME}=${encodeURIComponent(sessionId)}; Path=/; Max-Age=${SESSION_TTL_SECONDS}; Secure; HttpOnly; SameSite=${SESSION_COOKIE_SAME_SITE}`;
+
+export const buildClearedSessionCookie = (): string =>
+  `${SESSION_COOKIE_NAME}=; Path=/; Max-Age=0; Secure; HttpOnly; SameSite=${SESSION_COOKIE_SAME_SITE}`;
+
+// Session storage
+/**
+ * Stores the tokens from a sign-in under a new opaque session id and returns
+ * the id for the session cookie.
+ */
+export const createSession = async (tokens: SessionTokens): Promise<string> => {
+  const sessionId = randomBytes(32).toString('base64url');
+  const createdAt = now();
+  const item: SessionItem = {
+    session_id: hashSessionId(sessionId),
+    ...tokens,
+    access_expires_at: getAccessTokenExpiry(tokens.access_token),
+    created_at: createdAt,
+    expires_at: createdAt + SESSION_TTL_SECONDS
+  };
+
+  await dynamodb.put({
+    TableName: SESSIONS_TABLE!,
+    Item: item
+  }).promise();
+  return sessionId;
+};
+
+const getSession = async (sessionKey: string): Promise<SessionItem | null> => {
+  const result = await dynamodb.get({
+    TableName: SESSIONS_TABLE!,
+    Key: { session_id: sessionKey }
+  }).promise();
+
+  const item = result.Item as SessionItem | undefined;
+  // DynamoDB removes expired items lazily, so expiry is checked here as well
+  return item && item.expires_at > now() ? item : null;
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await deleteSessionByKey(hashSessionId(sessionId));
+};
+
+export const deleteSessionByKey = async (sessionKey: string): Promise<void> => {
+  await dynamodb.delete({
+    TableName: SESSIONS_TABLE!,
+    Key: { session_id: sessionKey }
+  }).promise();
+};
+
+/**
+ * Exchanges the session's refresh token for new tokens and stores them. The
+ * update is conditional on the access token being unchanged, so when two
+ * requests refresh at once the loser reads back the winner's tokens. Returns
+ * null when the session cannot be refreshed or ended in the meantime.
+ */
+const rotateTokens = async (session: SessionItem): Promise<SessionTokens | null> => {
+  if (!session.refresh_token) return null;
+  const response = await axios.put(REFRESH_TOKEN_URL, {}, {
+    headers: { 'refresh-token': session.refresh_token }
+  });
+
+  const accessToken: string | undefined = response.headers['access-token'];
+  if (!accessToken) {
+    throw new Error('Refresh response did not include an access token');
+  }
+  const tokens: SessionTokens = {
+    access_token: accessToken,
+    refresh_token: response.headers['refresh-token'] || session.refresh_token
+  };
+
+  try {
+    await dynamodb.update({
+      TableName: SESSIONS_TABLE!,
+      Key: { session_id: session.session_id },
+      UpdateExpression: 'SET access_token = :access, refresh_token = :refresh, access_expires_at = :expiry',
+      ConditionExpression: 'access_token = :previous',
+      ExpressionAttributeValues: {
+        ':access': tokens.access_token,
+        ':refresh': tokens.refresh_token,
+        ':expiry': getAccessTokenExpiry(tokens.access_token),
+        ':previous': session.access_token
+      }
+    }).promise();
+    return tokens;
+  } catch (error: any) {
+    if (error?.code !== 'ConditionalCheckFailedException') throw error;
+    // Also fails when the session was deleted, e.g. by a sign-out during the refresh
+    const current = await getSession(session.session_id);
+    return current ? { access_token: current.access_token, refresh_token: current.refresh_token } : null;
+  }
+};
+
+/**
+ * Resolves the Polestar tokens for the request's session cookie, rotating
+ * them first when the access token is about to expire. Returns null when
+ * there is no cookie or the session has ended.
+ */
+export const resolveSessionTokens = async (
+  event: APIGatewayProxyEvent,
+  options: { forceRefresh?: boolean } = {}
+): Promise<SessionTokens | null> => {
+  const sessionId = getSessionId(event);
+  return sessionId ? resolveSessionTokensByKey(hashSessionId(sessionId), options) : null;
+};
+
+// As resolveSessionTokens, for a session referred to by its table key
+export const resolveSessionTokensByKey = async (
+  sessionKey: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<SessionTokens | null> => {
+  if (!SESSIONS_TABLE) return null;
+
+  const session = await getSession(sessionKey);
+  if (!session) return null;
+
+  if (options.forceRefresh || session.access_expires_at - REFRESH_MARGIN_SECONDS <= now()) {
+    return rotateTokens(session);
+  }
+  return { access_token: session.access_token, refresh_token: session.refresh_token };
+};
@@ -0,0 +1,77 @@
+import { BoundingBox, bboxIntersects, unionBoundingBox } from './geo';
+
+// Types
+export interface SpatialEntry<T> {
+  bbox: BoundingBox;
+  item: T;
+}
+
+interface IndexNode<T> {
+  bbox: BoundingBox;
+  children?: IndexNode<T>[];
+  entries?: SpatialEntry<T>[];
+}
+
+export interface SpatialIndex<T> {
+  size: number;
+  // Items whose bounding box intersects the given box
+  search: (bbox: BoundingBox) => T[];
+}
+
+// Constants
+const NODE_SIZE = 16;
+
+// Utility functions
+const centerX = (bbox: BoundingBox): number => (bbox[0] + bbox[2]) / 2;
+const centerY = (bbox: BoundingBox): number => (bbox[1] + bbox[3]) / 2;
+
+// Sort-Tile-Recursive packing: vertical slices by x, then runs of NODE_SIZE by y
+const packLevel = <N extends { bbox: BoundingBox }>(items: N[]): N[][] => {
+  const groupCount = Math.ceil(items.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(groupCount)) * NODE_SIZE;
+  const sortedByX = [...items].sort((a, b) => centerX(a.bbox) - centerX(b.bbox));
+
+  const groups: N[][] = [];
+  for (let i = 0; i < sortedByX.length; i += sliceSize) {
+    const slice = sortedByX.slice(i, i + sliceSize).sort((a, b) => centerY(a.bbox) - centerY(b.bbox));
+    for (let j = 0; j < slice.length; j += NODE_SIZE) {
+      groups.push(slice.slice(j, j + NODE_SIZE));
+    }
+  }
+  return groups;
+};
+
+/**
+ * Builds a static, bulk-loaded R-tree over bounding boxes. The index is immutable;
+ * rebuild it when the underlying data changes.
+ */
+export const createSpatialIndex = <T>(entries: SpatialEntry<T>[]): SpatialIndex<T> => {
+  let level: IndexNode<T>[] = packLevel(entries).map(group => ({
+    bbox: unionBoundingBox(group.map(entry => entry.bbox)),
+    entries: group
+  }));
+  while (level.length > 1) {
+    level = packLevel(level).map(group => ({
+      bbox: unionBoundingBox(group.map(node => node.bbox)),
+      children: group
+    }));
+  }
+  const root = level[0];
+
+  const search = (bbox: BoundingBox): T[] => {
+    const results: T[] = [];
+    const stack = root && bboxIntersects(root.bbox, bbox) ? [root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      node.entries?.forEach(entry => {
+        if (bboxIntersects(entry.bbox, bbox)) results.push(entry.item);
+      });
+      node.children?.forEach(child => {
+        if (bboxIntersects(child.bbox, bbox)) stack.push(child);
+      });
+    }
+    return results;
+  };
+
+  return { size: entries.length, search };
+};
@@ -0,0 +1,61 @@
+// Letters that Unicode normalisation does not decompose into a base letter
+const FOLDED_LETTERS: { [key: string]: string } = {
+  'ø': 'o',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ß': 'ss',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ı': 'i'
+};
+
+// Lowercases and strips diacritics, so 'Göteborg' and 'goteborg' compare equal
+export const foldText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[øæœßłđðþı]/g, letter => FOLDED_LETTERS[letter])
+    .trim();
+
+// Folded text split into alphanumeric tokens
+export const tokenize = (value: string): string[] =>
+  foldText(value).split(/[^a-z0-9]+/).filter(token => token);
+
+// Folded text with separators removed, e.g. 'NL RTM' and 'nl-rtm' both become 'nlrtm'
+export const compactText = (value: string): string =>
+  foldText(value).replace(/[^a-z0-9]/g, '');
+
+// Typos tolerated in a token of the given length; short tokens must match exactly
+export const maxTypos = (length: number): number => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions. Returns `max + 1` as soon as the distance is known to exceed
+ * `max`, so comparing against many candidates stays cheap.
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return Math.min(row[b.length], max + 1);
+};
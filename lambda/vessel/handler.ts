@@ -1,51 +1,58 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
-import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
-
-// Types
-interface EndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  path: string;
-  handler: (event: APIGatewayProxyEvent, accessToken: string) => Promise<APIGatewayProxyResult>;
-}
+import axios from 'axios';
+import { EndpointConfig, createResponse, createErrorResponse, createRouter } from '../utils/proxy';
+import { fetchCollectionRecords, CollectionRecords } from '../utils/pagination';
+import { CONTROL_PARAMS } from '../utils/cursor';
+import { CACHE_POLICIES, markUncacheable } from '../utils/cache';
+import {
+  CollectionSource,
+  VESSEL_PORT_CALLS,
+  VESSEL_ZONE_AND_PORT_EVENTS,
+  VESSEL_AIS_REPORTING_GAPS,
+  VESSEL_POSITIONAL_DISCREPANCIES,
+  VESSEL_PORT_STATE_CONTROL
+} from '../utils/collections';
 
 // Constants
 const VESSEL_API_BASE_URL = 'https://asset-info-api.polestar-production.com/vessel-insights/v1';
 
-// Utility functions
-const extractAccessToken = (event: APIGatewayProxyEvent): string | null => {
-  let accessToken = event.headers['Authorization'] || event.headers['authorization'];
-  if (!accessToken && event.headers['access-token']) {
-    accessToken = event.headers['access-token'];
-  }
-  if (accessToken?.startsWith('Bearer ')) {
-    return accessToken.slice(7);
-  }
-  return accessToken || null;
+// Voyage insight sections included in a vessel dossier, keyed by section name
+const DOSSIER_SECTIONS: { [section: string]: CollectionSource } = {
+  port_calls: VESSEL_PORT_CALLS,
+  zone_and_port_events: VESSEL_ZONE_AND_PORT_EVENTS,
+  ais_reporting_gaps: VESSEL_AIS_REPORTING_GAPS,
+  positional_discrepancies: VESSEL_POSITIONAL_DISCREPANCIES,
+  port_state_control: VESSEL_PORT_STATE_CONTROL
 };
 
-const createResponse = (statusCode: number, body: any, headers = {}): APIGatewayProxyResult => ({
-  statusCode,
-  headers: {
-    'Content-Type': 'application/json',
-    ...getCorsHeaders(),
-    ...headers
-  },
-  body: JSON.stringify(body)
-});
-
-const handleError = (error: unknown): APIGatewayProxyResult => {
-  console.error('Error in vessel handler:', error);
-  
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError;
-    return createResponse(
-      axiosError.response?.status || 500,
-      axiosError.response?.data || { error: 'API request failed' }
-    );
+// Types
+interface DossierSection {
+  status: 'ok' | 'error';
+  status_code: number;
+  data?: any;
+  total_count?: number;
+  truncated?: boolean;
+  error?: string;
+  message?: string;
+}
+
+// Utility functions
+const fetchVesselCharacteristics = async (imo: string, accessToken: string) =>
+  axios.get(`${VESSEL_API_BASE_URL}/vessel-characteristics/${encodeURIComponent(imo)}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+const toErrorSection = (reason: unknown): DossierSection => {
+  if (axios.isAxiosError(reason)) {
+    return {
+      status: 'error',
+      status_code: reason.response?.status || 502,
+      error: 'API request failed',
+      message: reason.message
+    };
   }
-  
-  return createResponse(500, { error: 'Internal server error' });
+  console.error('Error building dossier section:', reason);
+  return { status: 'error', status_code: 500, error: 'Internal server error' };
 };
 
 // Endpoint handlers
@@ -55,15 +62,10 @@ const getVesselCharacteristics = async (
 ): Promise<APIGatewayProxyResult> => {
   const imo = event.pathParameters?.imo;
   if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
+    return createErrorResponse(400, { error: 'IMO number is required' });
   }
 
-  const response = await axios.get(
-    `${VESSEL_API_BASE_URL}/vessel-characteristics/${imo}`,
-    {
-      headers: { 'Authorization': `Bearer ${accessToken}` }
-    }
-  );
+  const response = await fetchVesselCharacteristics(imo, accessToken);
 
   const responseData = response.data;
   if (!responseData.meta) {
@@ -75,43 +77,94 @@ const getVesselCharacteristics = async (
   return createResponse(response.status, responseData);
 };
 
-// Route configuration
-const endpoints: EndpointConfig[] = [
-  {
-    method: 'GET',
-    path: '/vessel-characteristics',
-    handler: getVesselCharacteristics
+// Fans out to vessel characteristics and every voyage insight for one IMO. The
+// request's query parameters (e.g. the time window) are applied to every voyage
+// section, and a failing upstream only marks its own section as an error.
+const getVesselDossier = async (
+  event: APIGatewayProxyEvent,
+  accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const imo = event.pathParameters?.imo;
+  if (!imo) {
+    return createErrorResponse(400, { error: 'IMO number is required' });
   }
-  // Add new endpoints here following the same pattern
-];
 
-// Main handler
-export const handler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
-  // Handle OPTIONS requests for CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createOptionsResponse();
+  const timeWindow: { [key: string]: string } = {};
+  Object.entries(event.queryStringParameters || {}).forEach(([key, value]) => {
+    if (value !== undefined && key !== 'offset' && key !== 'limit' && !CONTROL_PARAMS.includes(key)) {
+      timeWindow[key] = value;
+    }
+  });
+
+  const sectionNames = Object.keys(DOSSIER_SECTIONS);
+  const [characteristicsResult, ...voyageResults] = await Promise.allSettled([
+    fetchVesselCharacteristics(imo, accessToken),
+    ...sectionNames.map(name => fetchCollectionRecords(DOSSIER_SECTIONS[name], imo, timeWindow, accessToken))
+  ]);
+
+  const sections: { [section: string]: DossierSection } = {};
+  if (characteristicsResult.status === 'fulfilled') {
+    const response = characteristicsResult.value;
+    sections.characteristics = {
+      status: 'ok',
+      status_code: response.status,
+      data: response.data?.data ?? response.data
+    };
+  } else {
+    sections.characteristics = toErrorSection(characteristicsResult.reason);
   }
 
-  try {
-    const accessToken = extractAccessToken(event);
-    if (!accessToken) {
-      return createResponse(401, { error: 'Access token is required' });
+  voyageResults.forEach((result, index) => {
+    const name = sectionNames[index];
+    if (result.status === 'rejected') {
+      sections[name] = toErrorSection(result.reason);
+      return;
     }
+    const collection = result.value as CollectionRecords;
+    sections[name] = {
+      status: 'ok',
+      status_code: 200,
+      data: collection.records,
+      total_count: collection.total_count,
+      truncated: collection.truncated
+    };
+  });
 
-    // Find matching endpoint
-    const endpoint = endpoints.find(e => 
-      e.method === event.httpMethod && 
-      event.path.includes(e.path)
-    );
+  const failed = Object.keys(sections).filter(name => sections[name].status === 'error');
+  const statusCode = failed.length === Object.keys(sections).length ? 502 : 200;
 
-    if (!endpoint) {
-      return createResponse(404, { error: 'Endpoint not found' });
+  const response = createResponse(statusCode, {
+    data: {
+      imo,
+      ...sections
+    },
+    meta: {
+      status_code: statusCode,
+      window: timeWindow,
+      sections_ok: Object.keys(sections).length - failed.length,
+      sections_failed: failed
     }
+  });
+  // A partial dossier is not cached, so the next request retries the failed sections
+  return failed.length > 0 ? markUncacheable(response) : response;
+};
 
-    return await endpoint.handler(event, accessToken);
-  } catch (error) {
-    return handleError(error);
+// Route configuration
+const endpoints: EndpointConfig[] = [
+  {
+    method: 'GET',
+    path: '/vessel-insights/vessel-characteristics/{imo}',
+    handler: getVesselCharacteristics,
+    cache: CACHE_POLICIES.reference
+  },
+  {
+    method: 'GET',
+    path: '/vessel-insights/dossier/{imo}',
+    handler: getVesselDossier,
+    cache: CACHE_POLICIES.standard
   }
-};
\ No newline at end of file
+  // Add new endpoints here following the same pattern
+];
+
+// Main handler
+export const handler = createRouter(endpoints, 'vessel handler');
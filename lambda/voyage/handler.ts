@@ -1,555 +1,243 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
-import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
-
-// Constants
-const MAX_RECORDS_LIMIT = parseInt(process.env.MAX_RECORDS_LIMIT || '5000', 10);
+import axios from 'axios';
+import { EndpointConfig, createResponse, createErrorResponse, createRouter } from '../utils/proxy';
+import { createCollectionHandler, fetchCollectionRecords, CollectionRecords } from '../utils/pagination';
+import { CONTROL_PARAMS } from '../utils/cursor';
+import { CACHE_POLICIES, markUncacheable } from '../utils/cache';
+import { resolveResponseFormat, createFormattedResponse, unsupportedFormatMessage } from '../utils/responseFormat';
+import {
+  CollectionSource,
+  VESSEL_PORT_CALLS,
+  VESSEL_ZONE_AND_PORT_EVENTS,
+  VESSEL_AIS_REPORTING_GAPS,
+  VESSEL_POSITIONAL_DISCREPANCIES,
+  VESSEL_PORT_STATE_CONTROL
+} from '../utils/collections';
+import { TimelineEventType, buildTimeline } from './timeline';
+import { DEFAULT_HIGH_RISK_ZONE_TYPES, computeRiskScore, loadHighRiskZones } from './riskScore';
+
+// Sources merged into the vessel activity timeline
+const TIMELINE_SOURCES: { type: TimelineEventType; source: CollectionSource }[] = [
+  { type: 'port_call', source: VESSEL_PORT_CALLS },
+  { type: 'zone_and_port_event', source: VESSEL_ZONE_AND_PORT_EVENTS },
+  { type: 'ais_reporting_gap', source: VESSEL_AIS_REPORTING_GAPS },
+  { type: 'positional_discrepancy', source: VESSEL_POSITIONAL_DISCREPANCIES }
+];
 
-// Types
-interface EndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  path: string;
-  handler: (event: APIGatewayProxyEvent, accessToken: string) => Promise<APIGatewayProxyResult>;
-}
+// Parameters consumed by the timeline and risk score endpoints themselves
+const ENDPOINT_PARAMS = ['offset', 'limit', 'types', 'proximity_km', 'psc_lookback_days', 'high_risk_zone_types'];
 
 // Utility functions
-const extractAccessToken = (event: APIGatewayProxyEvent): string | null => {
-  let accessToken = event.headers['Authorization'] || event.headers['authorization'];
-  if (!accessToken && event.headers['access-token']) {
-    accessToken = event.headers['access-token'];
-  }
-  if (accessToken?.startsWith('Bearer ')) {
-    return accessToken.slice(7);
-  }
-  return accessToken || null;
-};
-
-const createResponse = (statusCode: number, body: any, headers: any = {}): APIGatewayProxyResult => ({
-  statusCode,
-  headers: {
-    'Content-Type': 'application/json',
-    ...getCorsHeaders(),
-    ...headers
-  },
-  body: JSON.stringify(body)
-});
-
-const handleError = (error: unknown): APIGatewayProxyResult => {
-  console.error('Error in voyage handler:', error);
-  
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError;
-    return createResponse(
-      axiosError.response?.status || 500,
-      axiosError.response?.data || { error: 'API request failed' }
-    );
-  }
-  
-  return createResponse(500, { error: 'Internal server error' });
-};
-
-// Endpoint handlers
-const getVesselPortCalls = async (
-  event: APIGatewayProxyEvent,
-  accessToken: string
-): Promise<APIGatewayProxyResult> => {
-  const imo = event.pathParameters?.imo;
-  if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
-  }
-
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = 'https://zone-service-api.polestar-production.com/voyage-insights/v1/vessel-port-calls/:imo';
-  const targetUrl = new URL(baseUrl.replace(':imo', imo));
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
+// Upstream filters shared by every source, e.g. the time window
+const getSharedFilters = (event: APIGatewayProxyEvent): { [key: string]: string } => {
+  const filters: { [key: string]: string } = {};
+  Object.entries(event.queryStringParameters || {}).forEach(([key, value]) => {
+    if (value !== undefined && !ENDPOINT_PARAMS.includes(key) && !CONTROL_PARAMS.includes(key)) {
+      filters[key] = value;
     }
   });
-
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
-
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
-    });
-  }
-
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      // Append port calls from additional response to initial response
-      if (additionalResponse.data?.data?.port_calls) {
-        responseData.data.port_calls.push(...additionalResponse.data.data.port_calls);
-      }
-    }
-
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
-    });
-  }
+  return filters;
 };
 
-const getVesselZoneAndPortEvents = async (
+// Endpoint handlers
+const getVesselTimeline = async (
   event: APIGatewayProxyEvent,
   accessToken: string
 ): Promise<APIGatewayProxyResult> => {
   const imo = event.pathParameters?.imo;
   if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
-  }
-
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = 'https://zone-service-api.polestar-production.com/voyage-insights/v1/vessel-zone-and-port-events/:imo';
-  const targetUrl = new URL(baseUrl.replace(':imo', imo));
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
-    }
-  });
-
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
-
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
-    });
+    return createErrorResponse(400, { error: 'IMO number is required' });
   }
 
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
+  const format = resolveResponseFormat(event);
+  if (!format) {
+    return createErrorResponse(400, { error: 'Invalid format', message: unsupportedFormatMessage });
   }
 
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      // Append events from additional response to initial response
-      if (additionalResponse.data?.data?.events) {
-        responseData.data.events.push(...additionalResponse.data.data.events);
-      }
-    }
-
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
+  const requestedTypes = event.queryStringParameters?.types?.split(',').map(type => type.trim());
+  const sources = TIMELINE_SOURCES.filter(({ type }) => !requestedTypes || requestedTypes.includes(type));
+  if (sources.length === 0) {
+    return createErrorResponse(400, {
+      error: 'Invalid types parameter',
+      message: `types must be a comma-separated list of: ${TIMELINE_SOURCES.map(({ type }) => type).join(', ')}`
     });
   }
-};
-
-const getVesselAisReportingGaps = async (
-  event: APIGatewayProxyEvent,
-  accessToken: string
-): Promise<APIGatewayProxyResult> => {
-  const imo = event.pathParameters?.imo;
-  if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
-  }
 
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = 'https://gap-reporting-api-public.polestar-production.com/voyage-insights/v1/vessel-ais-reporting-gaps/:imo';
-  const targetUrl = new URL(baseUrl.replace(':imo', imo));
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
+  const filters = getSharedFilters(event);
+  const results = await Promise.allSettled(
+    sources.map(({ source }) => fetchCollectionRecords(source, imo, filters, accessToken))
+  );
+
+  const sourceStatus: { [type: string]: any } = {};
+  const fetched: { type: TimelineEventType; records: any[] }[] = [];
+  results.forEach((result, index) => {
+    const { type } = sources[index];
+    if (result.status === 'fulfilled') {
+      const collection: CollectionRecords = result.value;
+      fetched.push({ type, records: collection.records });
+      sourceStatus[type] = {
+        status: 'ok',
+        total_count: collection.total_count,
+        truncated: collection.truncated
+      };
+    } else {
+      console.error(`Error fetching ${type} records for timeline:`, result.reason);
+      sourceStatus[type] = {
+        status: 'error',
+        status_code: axios.isAxiosError(result.reason) ? result.reason.response?.status || 502 : 500,
+        message: result.reason instanceof Error ? result.reason.message : 'Unknown error'
+      };
     }
   });
 
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
-
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
+  if (fetched.length === 0) {
+    return createErrorResponse(502, {
+      error: 'Failed to fetch timeline sources',
+      details: sourceStatus
     });
   }
 
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      // Append gaps from additional response to initial response
-      if (additionalResponse.data?.data?.gaps) {
-        responseData.data.gaps.push(...additionalResponse.data.data.gaps);
-      }
-    }
-
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
-    });
-  }
+  const timeline = buildTimeline(fetched);
+  const response = createFormattedResponse(200, {
+    data: {
+      imo,
+      timeline
+    },
+    meta: {
+      status_code: 200,
+      total_count: timeline.length,
+      filters,
+      sources: sourceStatus
+    }
+  }, format, 'data.timeline');
+  // A timeline missing sources is not cached, so the next request retries them
+  return fetched.length < sources.length ? markUncacheable(response) : response;
 };
 
-const getVesselPositionalDiscrepancies = async (
-  event: APIGatewayProxyEvent,
-  accessToken: string
-): Promise<APIGatewayProxyResult> => {
-  const imo = event.pathParameters?.imo;
-  if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
-  }
-
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = 'https://ais-spoofing-api-public.polestar-production.com/voyage-insights/v1/vessel-positional-discrepancy/:imo';
-  const targetUrl = new URL(baseUrl.replace(':imo', imo));
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
-    }
-  });
-
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
-
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
-    });
-  }
-
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      // Append discrepancies from additional response to initial response
-      if (additionalResponse.data?.data?.discrepancies) {
-        responseData.data.discrepancies.push(...additionalResponse.data.data.discrepancies);
-      }
-    }
-
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
-    });
-  }
+// Settled results resolve to their records, or null when the source failed
+const recordsOrNull = (result: PromiseSettledResult<CollectionRecords>, name: string): any[] | null => {
+  if (result.status === 'fulfilled') return result.value.records;
+  console.error(`Error fetching ${name} for risk score:`, result.reason);
+  return null;
 };
 
-const getVesselPortStateControl = async (
+const getVesselRiskScore = async (
   event: APIGatewayProxyEvent,
   accessToken: string
 ): Promise<APIGatewayProxyResult> => {
   const imo = event.pathParameters?.imo;
   if (!imo) {
-    return createResponse(400, { error: 'IMO number is required' });
+    return createErrorResponse(400, { error: 'IMO number is required' });
   }
 
   const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = 'https://psc-insp-service-api-public.polestar-production.com/voyage-insights/v1/vessel-port-state-control/:imo';
-  const targetUrl = new URL(baseUrl.replace(':imo', imo));
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
-    }
-  });
-
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
-
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
+  const proximityKm = parseFloat(queryParams.proximity_km || '50');
+  const pscLookbackDays = parseInt(queryParams.psc_lookback_days || '365', 10);
+  if (!(proximityKm >= 0) || !(pscLookbackDays > 0)) {
+    return createErrorResponse(400, {
+      error: 'Invalid parameters',
+      message: 'proximity_km must be a non-negative number and psc_lookback_days a positive integer'
     });
   }
 
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      // Append inspections from additional response to initial response
-      if (additionalResponse.data?.data?.inspections) {
-        responseData.data.inspections.push(...additionalResponse.data.data.inspections);
-      }
-    }
-
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
+  const zoneTypes = queryParams.high_risk_zone_types
+    ? queryParams.high_risk_zone_types.split(',').map(type => type.trim()).filter(type => type)
+    : DEFAULT_HIGH_RISK_ZONE_TYPES;
+
+  // Gaps and discrepancies use the requested window; PSC history uses the lookback instead
+  const filters = getSharedFilters(event);
+  const [gapsResult, discrepanciesResult, inspectionsResult, zonesResult] = await Promise.allSettled([
+    fetchCollectionRecords(VESSEL_AIS_REPORTING_GAPS, imo, filters, accessToken),
+    fetchCollectionRecords(VESSEL_POSITIONAL_DISCREPANCIES, imo, filters, accessToken),
+    fetchCollectionRecords(VESSEL_PORT_STATE_CONTROL, imo, {}, accessToken),
+    loadHighRiskZones(zoneTypes)
+  ]);
+
+  const collectionResults: { [name: string]: PromiseSettledResult<CollectionRecords> } = {
+    ais_reporting_gaps: gapsResult,
+    positional_discrepancies: discrepanciesResult,
+    port_state_control: inspectionsResult
+  };
+
+  if (zonesResult.status === 'rejected') {
+    console.error('Error loading high-risk zones for risk score:', zonesResult.reason);
+  }
+
+  const partial = zonesResult.status === 'rejected' ||
+    Object.values(collectionResults).some(result => result.status === 'rejected');
+  const assessment = computeRiskScore({
+    gaps: recordsOrNull(gapsResult, 'AIS reporting gaps'),
+    discrepancies: recordsOrNull(discrepanciesResult, 'positional discrepancies'),
+    inspections: recordsOrNull(inspectionsResult, 'port state control inspections'),
+    highRiskZones: zonesResult.status === 'fulfilled' ? zonesResult.value : null
+  }, { proximityKm, pscLookbackDays });
+
+  const response = createResponse(200, {
+    data: {
+      imo,
+      ...assessment
+    },
+    meta: {
+      status_code: 200,
+      filters,
+      proximity_km: proximityKm,
+      psc_lookback_days: pscLookbackDays,
+      high_risk_zone_types: zoneTypes,
+      truncated_sources: Object.keys(collectionResults).filter(name => {
+        const result = collectionResults[name];
+        return result.status === 'fulfilled' && result.value.truncated;
+      })
     }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
-    });
-  }
+  });
+  // A score computed without every input is not cached, so the next request retries them
+  return partial ? markUncacheable(response) : response;
 };
 
 // Route configuration
 const endpoints: EndpointConfig[] = [
   {
     method: 'GET',
-    path: '/voyage-insights/vessel-port-calls/',
-    handler: getVesselPortCalls
+    path: VESSEL_PORT_CALLS.path,
+    handler: createCollectionHandler(VESSEL_PORT_CALLS),
+    cache: CACHE_POLICIES.standard
+  },
+  {
+    method: 'GET',
+    path: VESSEL_ZONE_AND_PORT_EVENTS.path,
+    handler: createCollectionHandler(VESSEL_ZONE_AND_PORT_EVENTS),
+    cache: CACHE_POLICIES.standard
+  },
+  {
+    method: 'GET',
+    path: VESSEL_AIS_REPORTING_GAPS.path,
+    handler: createCollectionHandler(VESSEL_AIS_REPORTING_GAPS),
+    cache: CACHE_POLICIES.standard
   },
   {
     method: 'GET',
-    path: '/voyage-insights/vessel-zone-and-port-events/',
-    handler: getVesselZoneAndPortEvents
+    path: VESSEL_POSITIONAL_DISCREPANCIES.path,
+    handler: createCollectionHandler(VESSEL_POSITIONAL_DISCREPANCIES),
+    cache: CACHE_POLICIES.standard
   },
   {
     method: 'GET',
-    path: '/voyage-insights/vessel-ais-reporting-gaps/',
-    handler: getVesselAisReportingGaps
+    path: VESSEL_PORT_STATE_CONTROL.path,
+    handler: createCollectionHandler(VESSEL_PORT_STATE_CONTROL),
+    cache: CACHE_POLICIES.reference
   },
   {
     method: 'GET',
-    path: '/voyage-insights/vessel-positional-discrepancies/',
-    handler: getVesselPositionalDiscrepancies
+    path: '/voyage-insights/vessel-timeline/{imo}',
+    handler: getVesselTimeline,
+    cache: CACHE_POLICIES.standard
   },
   {
     method: 'GET',
-    path: '/voyage-insights/vessel-port-state-control/',
-    handler: getVesselPortStateControl
+    path: '/voyage-insights/vessel-risk-score/{imo}',
+    handler: getVesselRiskScore,
+    cache: CACHE_POLICIES.standard
   }
 ];
 
 // Main handler
-export const handler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
-  // Handle OPTIONS requests for CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createOptionsResponse();
-  }
-
-  try {
-    const accessToken = extractAccessToken(event);
-    if (!accessToken) {
-      return createResponse(401, { error: 'Access token is required' });
-    }
-
-    // Find matching endpoint
-    const endpoint = endpoints.find(e => 
-      e.method === event.httpMethod && 
-      event.path.includes(e.path)
-    );
-
-    if (!endpoint) {
-      return createResponse(404, { error: 'Endpoint not found' });
-    }
-
-    return await endpoint.handler(event, accessToken);
-  } catch (error) {
-    return handleError(error);
-  }
-};
+export const handler = createRouter(endpoints, 'voyage handler');
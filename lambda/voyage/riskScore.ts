@@ -0,0 +1,320 @@
+import { getFeatures, getDatasetGeneration } from '../zone-datasets/dataset';
+import { flattenRecord, extractPositions } from '../utils/formats';
+import { PolygonalGeometry, distanceToGeometryKm, getBoundingBox, haversineKm } from '../utils/geo';
+import { toTimelineEvent } from './timeline';
+
+// Constants
+export const DEFAULT_HIGH_RISK_ZONE_TYPES = (process.env.HIGH_RISK_ZONE_TYPES || 'High Risk Areas,Sanctioned Areas,War Risk Areas')
+  .split(',')
+  .map(type => type.trim())
+  .filter(type => type);
+
+// Each factor's maximum contribution; the weights add up to 100
+const MAX_POINTS = {
+  ais_gap_count: 20,
+  ais_gap_duration: 20,
+  spoofing_distance: 20,
+  gaps_near_high_risk_zones: 25,
+  psc_detentions: 15
+};
+
+// Value at which each factor reaches its maximum contribution
+const SATURATION = {
+  ais_gap_count: 10,          // gaps
+  ais_gap_duration: 240,      // hours
+  spoofing_distance: 100,     // km
+  gaps_near_high_risk_zones: 3, // gaps
+  psc_detentions: 2           // detentions
+};
+
+// Types
+export interface HighRiskZone {
+  zone_id: string;
+  name: string;
+  zone_type: string;
+  geometry: PolygonalGeometry;
+  bbox: [number, number, number, number];
+}
+
+export interface RiskFactor {
+  name: keyof typeof MAX_POINTS;
+  description: string;
+  available: boolean;
+  value: number | null;
+  points: number;
+  max_points: number;
+  details?: any;
+}
+
+export interface RiskInputs {
+  // null means the source could not be fetched
+  gaps: any[] | null;
+  discrepancies: any[] | null;
+  inspections: any[] | null;
+  highRiskZones: HighRiskZone[] | null;
+}
+
+export interface RiskOptions {
+  proximityKm: number;
+  pscLookbackDays: number;
+  now?: Date;
+}
+
+// High-risk zone loading, cached per zone type set until a new dataset version is loaded
+let highRiskZoneCache: { [key: string]: HighRiskZone[] } = {};
+let highRiskZoneGeneration = -1;
+
+export const loadHighRiskZones = async (zoneTypes: string[]): Promise<HighRiskZone[]> => {
+  const wanted = zoneTypes.map(type => type.toLowerCase());
+  const cacheKey = [...wanted].sort().join('|');
+  const features = await getFeatures();
+  if (highRiskZoneGeneration !== getDatasetGeneration()) {
+    highRiskZoneCache = {};
+    highRiskZoneGeneration = getDatasetGeneration();
+  }
+  if (highRiskZoneCache[cacheKey]) {
+    return highRiskZoneCache[cacheKey];
+  }
+
+  const zones: HighRiskZone[] = [];
+  features.forEach(({ properties: record, geometry }) => {
+    if (!wanted.includes(String(record.zone_type || '').toLowerCase())) return;
+    if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') return;
+
+    zones.push({
+      zone_id: record.zone_id,
+      name: record.name,
+      zone_type: record.zone_type,
+      geometry: geometry as PolygonalGeometry,
+      bbox: getBoundingBox(geometry as PolygonalGeometry)
+    });
+  });
+
+  highRiskZoneCache[cacheKey] = zones;
+  return zones;
+};
+
+// Utility functions
+const pickNumber = (flatRecord: { [key: string]: any }, candidates: [string, number][]): number | null => {
+  for (const [key, scale] of candidates) {
+    const value = parseFloat(flatRecord[key]);
+    if (Number.isFinite(value)) return value * scale;
+  }
+  return null;
+};
+
+const scale = (name: keyof typeof MAX_POINTS, value: number): number =>
+  Math.round(MAX_POINTS[name] * Math.min(value / SATURATION[name], 1) * 10) / 10;
+
+const unavailable = (name: keyof typeof MAX_POINTS, description: string): RiskFactor => ({
+  name,
+  description,
+  available: false,
+  value: null,
+  points: 0,
+  max_points: MAX_POINTS[name]
+});
+
+const gapDurationHours = (gap: any): number | null => {
+  const duration = pickNumber(flattenRecord(gap), [
+    ['duration_hours', 1],
+    ['gap_duration_hours', 1],
+    ['duration_minutes', 1 / 60],
+    ['duration_seconds', 1 / 3600]
+  ]);
+  if (duration !== null) return duration;
+
+  const { start, end } = toTimelineEvent('ais_reporting_gap', gap);
+  return start && end ? (Date.parse(end) - Date.parse(start)) / 3600000 : null;
+};
+
+const discrepancyDistanceKm = (discrepancy: any): number | null => {
+  const flatRecord = flattenRecord(discrepancy);
+  const distance = pickNumber(flatRecord, [
+    ['distance_km', 1],
+    ['discrepancy_distance_km', 1],
+    ['distance_nm', 1.852],
+    ['discrepancy_distance_nm', 1.852],
+    ['distance_m', 0.001]
+  ]);
+  if (distance !== null) return distance;
+
+  // Fall back to the distance between the reported and the actual position
+  const positions = extractPositions(flatRecord);
+  return positions.length >= 2 ? haversineKm(positions[0], positions[1]) : null;
+};
+
+// Fields of a Polestar port state control inspection; only the boolean flag marks a detention
+const PSC_DETAINED_FIELD = 'detained';
+const PSC_INSPECTION_DATE_FIELD = 'inspection_date';
+
+const isDetention = (inspection: any): boolean => inspection?.[PSC_DETAINED_FIELD] === true;
+
+const inspectionDate = (inspection: any): number | null => {
+  const value = inspection?.[PSC_INSPECTION_DATE_FIELD];
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+// Factor calculations
+const gapCountFactor = (gaps: any[] | null): RiskFactor => {
+  const description = 'Number of AIS reporting gaps in the window';
+  if (!gaps) return unavailable('ais_gap_count', description);
+
+  return {
+    name: 'ais_gap_count',
+    description,
+    available: true,
+    value: gaps.length,
+    points: scale('ais_gap_count', gaps.length),
+    max_points: MAX_POINTS.ais_gap_count
+  };
+};
+
+const gapDurationFactor = (gaps: any[] | null): RiskFactor => {
+  const description = 'Total hours of AIS reporting gaps in the window';
+  if (!gaps) return unavailable('ais_gap_duration', description);
+
+  const durations = gaps.map(gapDurationHours).filter((hours): hours is number => hours !== null && hours > 0);
+  const totalHours = Math.round(durations.reduce((sum, hours) => sum + hours, 0) * 10) / 10;
+  return {
+    name: 'ais_gap_duration',
+    description,
+    available: true,
+    value: totalHours,
+    points: scale('ais_gap_duration', totalHours),
+    max_points: MAX_POINTS.ais_gap_duration,
+    details: {
+      longest_gap_hours: durations.length > 0 ? Math.round(Math.max(...durations) * 10) / 10 : 0,
+      gaps_without_duration: gaps.length - durations.length
+    }
+  };
+};
+
+const spoofingFactor = (discrepancies: any[] | null): RiskFactor => {
+  const description = 'Largest distance (km) between reported and detected positions';
+  if (!discrepancies) return unavailable('spoofing_distance', description);
+
+  const distances = discrepancies
+    .map(discrepancyDistanceKm)
+    .filter((distance): distance is number => distance !== null);
+  const maxDistance = distances.length > 0 ? Math.round(Math.max(...distances) * 10) / 10 : 0;
+  return {
+    name: 'spoofing_distance',
+    description,
+    available: true,
+    value: maxDistance,
+    points: scale('spoofing_distance', maxDistance),
+    max_points: MAX_POINTS.spoofing_distance,
+    details: { discrepancy_count: discrepancies.length }
+  };
+};
+
+const proximityFactor = (gaps: any[] | null, zones: HighRiskZone[] | null, proximityKm: number): RiskFactor => {
+  const description = `AIS gaps starting or ending within ${proximityKm} km of a high-risk zone`;
+  if (!gaps || !zones) return unavailable('gaps_near_high_risk_zones', description);
+
+  // Rough degree margin for the bounding-box prefilter
+  const latMargin = proximityKm / 111;
+  const matches: any[] = [];
+
+  gaps.forEach(gap => {
+    const positions = extractPositions(flattenRecord(gap));
+    const nearZones: any[] = [];
+
+    zones.forEach(zone => {
+      let nearest = Number.POSITIVE_INFINITY;
+      positions.forEach(position => {
+        const lonMargin = latMargin / Math.max(Math.cos((position[1] * Math.PI) / 180), 0.01);
+        const [minLon, minLat, maxLon, maxLat] = zone.bbox;
+        if (position[0] < minLon - lonMargin || position[0] > maxLon + lonMargin ||
+            position[1] < minLat - latMargin || position[1] > maxLat + latMargin) {
+          return;
+        }
+        nearest = Math.min(nearest, distanceToGeometryKm(position, zone.geometry));
+      });
+
+      if (nearest <= proximityKm) {
+        nearZones.push({
+          zone_id: zone.zone_id,
+          name: zone.name,
+          zone_type: zone.zone_type,
+          distance_km: Math.round(nearest * 10) / 10
+        });
+      }
+    });
+
+    if (nearZones.length > 0) {
+      const { start, end } = toTimelineEvent('ais_reporting_gap', gap);
+      matches.push({ start, end, zones: nearZones });
+    }
+  });
+
+  return {
+    name: 'gaps_near_high_risk_zones',
+    description,
+    available: true,
+    value: matches.length,
+    points: scale('gaps_near_high_risk_zones', matches.length),
+    max_points: MAX_POINTS.gaps_near_high_risk_zones,
+    details: { gaps: matches }
+  };
+};
+
+const detentionFactor = (inspections: any[] | null, lookbackDays: number, now: Date): RiskFactor => {
+  const description = `Port state control detentions in the last ${lookbackDays} days`;
+  if (!inspections) return unavailable('psc_detentions', description);
+
+  const cutoff = now.getTime() - lookbackDays * 24 * 60 * 60 * 1000;
+  const detentions = inspections.filter(isDetention);
+  // Undated detentions cannot be placed in the lookback, so they are reported but not scored
+  const undated = detentions.filter(inspection => inspectionDate(inspection) === null);
+  const recent = detentions.filter(inspection => {
+    const time = inspectionDate(inspection);
+    return time !== null && time >= cutoff;
+  });
+
+  return {
+    name: 'psc_detentions',
+    description,
+    available: true,
+    value: recent.length,
+    points: scale('psc_detentions', recent.length),
+    max_points: MAX_POINTS.psc_detentions,
+    details: {
+      total_detentions: detentions.length,
+      undated_detentions: undated.length,
+      inspections_checked: inspections.length
+    }
+  };
+};
+
+const toRiskLevel = (score: number): 'low' | 'medium' | 'high' | 'critical' => {
+  if (score >= 75) return 'critical';
+  if (score >= 50) return 'high';
+  if (score >= 25) return 'medium';
+  return 'low';
+};
+
+/**
+ * Scores dark-activity risk from 0 to 100 as the sum of capped, weighted factors.
+ * Every factor is returned with its raw value and points, so the score can be
+ * explained; factors whose source failed are marked unavailable and score 0.
+ */
+export const computeRiskScore = (inputs: RiskInputs, options: RiskOptions) => {
+  const factors = [
+    gapCountFactor(inputs.gaps),
+    gapDurationFactor(inputs.gaps),
+    spoofingFactor(inputs.discrepancies),
+    proximityFactor(inputs.gaps, inputs.highRiskZones, options.proximityKm),
+    detentionFactor(inputs.inspections, options.pscLookbackDays, options.now || new Date())
+  ];
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0) * 10) / 10;
+  return {
+    score,
+    level: toRiskLevel(score),
+    complete: factors.every(factor => factor.available),
+    factors
+  };
+};
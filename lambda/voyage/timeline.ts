@@ -0,0 +1,85 @@
+import { flattenRecord, extractPositions } from '../utils/formats';
+
+// Types
+export type TimelineEventType = 'port_call' | 'zone_and_port_event' | 'ais_reporting_gap' | 'positional_discrepancy';
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  start: string | null;
+  end: string | null;
+  location: { lat: number; lon: number } | null;
+  zone_id: string | null;
+  port_id: string | null;
+  source: any;
+}
+
+interface FieldCandidates {
+  start: string[];
+  end: string[];
+}
+
+// Candidate (flattened) field names per source, most specific first
+const TIMESTAMP_FIELDS: { [type in TimelineEventType]: FieldCandidates } = {
+  port_call: {
+    start: ['arrival_timestamp', 'arrival_time', 'start_timestamp', 'timestamp_start'],
+    end: ['departure_timestamp', 'departure_time', 'end_timestamp', 'timestamp_end']
+  },
+  zone_and_port_event: {
+    start: ['entry_timestamp', 'event_timestamp', 'start_timestamp', 'timestamp'],
+    end: ['exit_timestamp', 'end_timestamp']
+  },
+  ais_reporting_gap: {
+    start: ['gap_start_timestamp', 'start_timestamp', 'last_seen_timestamp', 'timestamp_start'],
+    end: ['gap_end_timestamp', 'end_timestamp', 'first_seen_timestamp', 'timestamp_end']
+  },
+  positional_discrepancy: {
+    start: ['start_timestamp', 'discrepancy_start_timestamp', 'timestamp', 'timestamp_start'],
+    end: ['end_timestamp', 'discrepancy_end_timestamp', 'timestamp_end']
+  }
+};
+
+const ZONE_ID_FIELDS = ['zone_id', 'zone.id', 'zone.zone_id', 'zone_and_port_id'];
+const PORT_ID_FIELDS = ['port_id', 'port.id', 'port.zone_id'];
+
+// Utility functions
+const pickField = (flatRecord: { [key: string]: any }, candidates: string[]): any => {
+  const key = candidates.find(candidate => flatRecord[candidate] !== undefined && flatRecord[candidate] !== null);
+  return key ? flatRecord[key] : null;
+};
+
+const toIsoTimestamp = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const toTimelineEvent = (type: TimelineEventType, record: any): TimelineEvent => {
+  const flatRecord = flattenRecord(record);
+  const fields = TIMESTAMP_FIELDS[type];
+  const [position] = extractPositions(flatRecord);
+  const zoneId = pickField(flatRecord, ZONE_ID_FIELDS);
+  const portId = pickField(flatRecord, PORT_ID_FIELDS);
+
+  return {
+    type,
+    start: toIsoTimestamp(pickField(flatRecord, fields.start)),
+    end: toIsoTimestamp(pickField(flatRecord, fields.end)),
+    location: position ? { lat: position[1], lon: position[0] } : null,
+    zone_id: zoneId !== null ? String(zoneId) : null,
+    port_id: portId !== null ? String(portId) : null,
+    source: record
+  };
+};
+
+/**
+ * Normalises records from each source into one chronologically sorted stream.
+ * Events are ordered by start, then end; events without a start sort last.
+ */
+export const buildTimeline = (sources: { type: TimelineEventType; records: any[] }[]): TimelineEvent[] => {
+  const events = sources.flatMap(({ type, records }) => records.map(record => toTimelineEvent(type, record)));
+
+  const sortKey = (value: string | null): number => (value ? Date.parse(value) : Number.POSITIVE_INFINITY);
+  return events.sort((a, b) =>
+    sortKey(a.start) - sortKey(b.start) || sortKey(a.end) - sortKey(b.end)
+  );
+};
@@ -2,17 +2,18 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDB } from 'aws-sdk';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
-import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
+import { EndpointConfig, EndpointHandler, createErrorResponse, createResponse, createRouter } from '../utils/proxy';
+import { withPolestarCredentials } from '../utils/polestarCredentials';
 
 // Initialize DynamoDB client
 const dynamodb = new DynamoDB.DocumentClient();
 const NOTIFICATIONS_TABLE = process.env.NOTIFICATIONS_TABLE!;
+// Tier keys issued to portal users pass API Gateway's key check too, so the key itself is checked here
+const WEBHOOK_API_KEY_ID = process.env.WEBHOOK_API_KEY_ID;
 
 // Constants for auto screening
 const PTE_POST_TRANSACTION_URL = 'https://api.polestar-production.com/purpletrac/v1/registration';
 const PTE_GET_TRANSACTION_URL = 'https://api.polestar-production.com/purpletrac/v1/transaction';
-const PTE_USERNAME = process.env.PTE_USERNAME!;
-const PTE_API_KEY = process.env.PTE_API_KEY!;
 const PTE_TIMEOUT = 300000; // 5 minutes
 
 // Types
@@ -32,42 +33,35 @@ interface WebhookNotification {
   auto_screening?: any;
 }
 
-interface EndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  path: string;
-  handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
-}
-
-// Utility functions
-const createResponse = (statusCode: number, body: any, headers: any = {}, origin?: string) => ({
-  statusCode,
-  headers: {
-    'Content-Type': 'application/json',
-    ...getCorsHeaders(origin),
-    ...headers
-  },
-  body: JSON.stringify(body)
-});
+// Only the dedicated webhook key may deliver or read notifications
+const requireWebhookKey = (handler: EndpointHandler): EndpointHandler => async (event, accessToken) => {
+  const apiKeyId = event.requestContext?.identity?.apiKeyId;
+  if (!WEBHOOK_API_KEY_ID || apiKeyId !== WEBHOOK_API_KEY_ID) {
+    return createErrorResponse(403, { error: 'The webhook API key is required' }, event.headers?.['origin']);
+  }
+  return handler(event, accessToken);
+};
 
 // Helper function to sleep/wait
 const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
 // Function to handle auto screening process
 const handleAutoScreening = async (imoNumber: string): Promise<any> => {
-  const pteUrl = `${PTE_POST_TRANSACTION_URL}?username=${PTE_USERNAME}&api_key=${PTE_API_KEY}`;
-  
   // Make initial POST request
-  const pteResponse = await axios.post(pteUrl, {
+  const pteResponse = await withPolestarCredentials(credentials => axios.post(PTE_POST_TRANSACTION_URL, {
     registered_name: imoNumber,
     custom_reference: "AUTO_SCREENING_PROTOTYPE"
-  });
+  }, {
+    params: { username: credentials.username, api_key: credentials.api_key }
+  }));
 
   console.log('AUTO_SCREENING POST request successful, transaction_id:', pteResponse.data.transaction_id);
 
   // Function to get screening status
   const getScreeningStatus = async (transactionId: string) => {
-    const getUrl = `${PTE_GET_TRANSACTION_URL}?id=${transactionId}&username=${PTE_USERNAME}&api_key=${PTE_API_KEY}`;
-    const response = await axios.get(getUrl);
+    const response = await withPolestarCredentials(credentials => axios.get(PTE_GET_TRANSACTION_URL, {
+      params: { id: transactionId, username: credentials.username, api_key: credentials.api_key }
+    }));
     return response.data;
   };
 
@@ -311,41 +305,25 @@ const endpoints: EndpointConfig[] = [
   {
     method: 'POST',
     path: '/webhook-notifications',
-    handler: storeWebhookNotification
+    handler: requireWebhookKey(storeWebhookNotification),
+    requiresAuth: false
   },
   {
     method: 'GET',
     path: '/webhook-notifications',
-    handler: getWebhookNotifications
+    handler: requireWebhookKey(getWebhookNotifications),
+    requiresAuth: false
   },
   {
     method: 'DELETE',
     path: '/webhook-notifications/cleanup',
-    handler: cleanupWebhookNotifications
+    handler: cleanupWebhookNotifications,
+    requiresAuth: false,
+    // delete_all empties the whole table
+    role: 'admin',
+    audit: true
   }
 ];
 
 // Main handler
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  const origin = event.headers['origin'];
-  
-  // Handle OPTIONS requests for CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createOptionsResponse(origin);
-  }
-
-  try {
-    const endpoint = endpoints.find(
-      e => e.method === event.httpMethod && event.path.endsWith(e.path)
-    );
-
-    if (!endpoint) {
-      return createResponse(404, { error: 'Endpoint not found' }, {}, origin);
-    }
-
-    return await endpoint.handler(event);
-  } catch (error) {
-    console.error('Error in webhook notifications handler:', error);
-    return createResponse(500, { error: 'Internal server error' }, {}, origin);
-  }
-};
+export const handler = createRouter(endpoints, 'webhook notifications handler');
@@ -1,53 +1,10 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
-import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
-
-// Types
-interface EndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  path: string;
-  handler: (event: APIGatewayProxyEvent, accessToken: string) => Promise<APIGatewayProxyResult>;
-}
+import axios from 'axios';
+import { EndpointConfig, createResponse, createErrorResponse, createRouter } from '../utils/proxy';
 
 // Constants
 const NOTIFICATION_API_BASE_URL = 'https://event-notification-service-api.polestar-production.com/notifications/v1';
 
-// Utility functions
-const extractAccessToken = (event: APIGatewayProxyEvent): string | null => {
-  let accessToken = event.headers['Authorization'] || event.headers['authorization'];
-  if (!accessToken && event.headers['access-token']) {
-    accessToken = event.headers['access-token'];
-  }
-  if (accessToken?.startsWith('Bearer ')) {
-    return accessToken.slice(7);
-  }
-  return accessToken || null;
-};
-
-const createResponse = (statusCode: number, body: any, headers: any = {}): APIGatewayProxyResult => ({
-  statusCode,
-  headers: {
-    'Content-Type': 'application/json',
-    ...getCorsHeaders(),
-    ...headers
-  },
-  body: JSON.stringify(body)
-});
-
-const handleError = (error: unknown): APIGatewayProxyResult => {
-  console.error('Error in zone and port notifications handler:', error);
-  
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError;
-    return createResponse(
-      axiosError.response?.status || 500,
-      axiosError.response?.data || { error: 'API request failed' }
-    );
-  }
-  
-  return createResponse(500, { error: 'Internal server error' });
-};
-
 // Endpoint handlers
 const createZoneAndPortNotificationSubscription = async (
   event: APIGatewayProxyEvent,
@@ -76,7 +33,7 @@ const updateZoneAndPortNotificationSubscription = async (
 ): Promise<APIGatewayProxyResult> => {
   const id = event.pathParameters?.id;
   if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+    return createErrorResponse(400, { error: 'ID is required' });
   }
 
   const targetUrl = `${NOTIFICATION_API_BASE_URL}/zones-and-ports/${id}`;
@@ -102,7 +59,7 @@ const deleteZoneAndPortNotificationSubscription = async (
 ): Promise<APIGatewayProxyResult> => {
   const id = event.pathParameters?.id;
   if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+    return createErrorResponse(400, { error: 'ID is required' });
   }
 
   const targetUrl = `${NOTIFICATION_API_BASE_URL}/zones-and-ports/${id}`;
@@ -140,7 +97,7 @@ const getZoneAndPortNotificationSubscription = async (
 ): Promise<APIGatewayProxyResult> => {
   const id = event.pathParameters?.id;
   if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+    return createErrorResponse(400, { error: 'ID is required' });
   }
 
   const targetUrl = `${NOTIFICATION_API_BASE_URL}/zones-and-ports/${id}`;
@@ -165,7 +122,7 @@ const getZoneAndPortNotifications = async (
 ): Promise<APIGatewayProxyResult> => {
   const id = event.pathParameters?.id;
   if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+    return createErrorResponse(400, { error: 'ID is required' });
   }
 
   const targetUrl = `${NOTIFICATION_API_BASE_URL}/zones-and-ports/${id}/notifications`;
@@ -199,7 +156,8 @@ const endpoints: EndpointConfig[] = [
   {
     method: 'DELETE',
     path: '/notifications/zones-and-ports/{id}',
-    handler: deleteZoneAndPortNotificationSubscription
+    handler: deleteZoneAndPortNotificationSubscription,
+    audit: true
   },
   {
     method: 'GET',
@@ -219,27 +177,4 @@ const endpoints: EndpointConfig[] = [
 ];
 
 // Main handler
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  if (event.httpMethod === 'OPTIONS') {
-    return createOptionsResponse();
-  }
-
-  try {
-    const accessToken = extractAccessToken(event);
-    if (!accessToken) {
-      return createResponse(401, { error: 'Access token is required' });
-    }
-
-    const endpoint = endpoints.find(
-      e => e.method === event.httpMethod && event.path.match(new RegExp(e.path.replace(/{[^}]+}/g, '[^/]+') + '$'))
-    );
-
-    if (!endpoint) {
-      return createResponse(404, { error: 'Endpoint not found' });
-    }
-
-    return await endpoint.handler(event, accessToken);
-  } catch (error) {
-    return handleError(error);
-  }
-};
+export const handler = createRouter(endpoints, 'zone and port notifications handler');
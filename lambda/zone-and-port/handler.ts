@@ -1,287 +1,358 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
-import { getCorsHeaders, createOptionsResponse } from '../utils/cors';
-import { getRecordById } from './csvHandler';
-
-// Types
-interface EndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  path: string;
-  handler: (event: APIGatewayProxyEvent, accessToken: string) => Promise<APIGatewayProxyResult>;
-  requiresAuth: boolean;
-}
+import axios from 'axios';
+import {
+  EndpointConfig,
+  ErrorBody,
+  createResponse,
+  createErrorResponse,
+  handleError,
+  createRouter,
+  getRequestOrigin
+} from '../utils/proxy';
+import { getCorsHeaders } from '../utils/cors';
+import { createCollectionHandler, buildTargetUrl } from '../utils/pagination';
+import { resolveQueryParams, addCursorMeta } from '../utils/cursor';
+import { CACHE_POLICIES } from '../utils/cache';
+import { ZONE_AND_PORT_TRAFFIC, VESSELS_IN_ZONE_OR_PORT } from '../utils/collections';
+import { resolveResponseFormat, createFormattedResponse, unsupportedFormatMessage } from '../utils/responseFormat';
+import { BoundingBox } from '../utils/geo';
+import {
+  ZonePortRecord,
+  RecordFilters,
+  GeometryOptions,
+  applyGeometryOptions,
+  getFeatures,
+  matchesFilters,
+  getRecordById,
+  findContainingRecords,
+  findRecordsInBoundingBox,
+  findRecordsNear
+} from '../zone-datasets/dataset';
+import { MAX_TILE_ZOOM, getVectorTile } from './tiles';
 
 // Constants
 const ZONE_AND_PORT_API_BASE_URL = 'https://zone-service-api.polestar-production.com/zone-port-insights/v1';
-const MAX_RECORDS_LIMIT = parseInt(process.env.MAX_RECORDS_LIMIT || '5000', 10);
-
-// Utility functions
-const extractAccessToken = (event: APIGatewayProxyEvent): string | null => {
-  let accessToken = event.headers['Authorization'] || event.headers['authorization'];
-  if (!accessToken && event.headers['access-token']) {
-    accessToken = event.headers['access-token'];
-  }
-  if (accessToken?.startsWith('Bearer ')) {
-    return accessToken.slice(7);
-  }
-  return accessToken || null;
-};
-
-const createResponse = (statusCode: number, body: any, headers: any = {}): APIGatewayProxyResult => ({
-  statusCode,
-  headers: {
-    'Content-Type': 'application/json',
-    ...getCorsHeaders(),
-    ...headers
-  },
-  body: JSON.stringify(body)
-});
-
-const handleError = (error: unknown): APIGatewayProxyResult => {
-  console.error('Error in zone and port handler:', error);
-  
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError;
-    return createResponse(
-      axiosError.response?.status || 500,
-      axiosError.response?.data || { error: 'API request failed' }
-    );
-  }
-  
-  return createResponse(500, { error: 'Internal server error' });
-};
+const MAX_SEARCH_RADIUS_KM = 1000;
+// Lambda's synchronous response payload limit, less headroom for headers
+const MAX_RESPONSE_BYTES = 6 * 1024 * 1024 - 64 * 1024;
+// Map data changes only when a new zones file is published
+const MAP_DATA_CACHE_CONTROL = 'public, max-age=3600';
 
 // Endpoint handlers
-const getZoneAndPortTraffic = async (
+const getZoneAndPortList = async (
   event: APIGatewayProxyEvent,
   accessToken: string
 ): Promise<APIGatewayProxyResult> => {
-  const id = event.pathParameters?.id;
-  if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+  const queryParams = await resolveQueryParams(event);
+  if (!queryParams) {
+    return createErrorResponse(400, { error: 'Invalid cursor' });
   }
 
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-  
-  const baseUrl = `${ZONE_AND_PORT_API_BASE_URL}/zone-and-port-traffic/id/:id`;
-  const targetUrl = new URL(baseUrl.replace(':id', id) || '');
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
-    }
-  });
+  const format = resolveResponseFormat(event);
+  if (!format) {
+    return createErrorResponse(400, { error: 'Invalid format', message: unsupportedFormatMessage });
+  }
+
+  const targetUrl = buildTargetUrl(`${ZONE_AND_PORT_API_BASE_URL}/zones`, queryParams);
 
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
+  const response = await axios.get(targetUrl.toString(), {
     headers: { 'Authorization': `Bearer ${accessToken}` }
   });
 
-  let responseData = initialResponse.data;
+  const responseData = response.data;
   if (!responseData.meta) {
     responseData.meta = {};
   }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
-
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
+  responseData.meta.status_code = response.status;
+  responseData.meta.status_message = response.statusText;
+  await addCursorMeta(responseData.meta, event.path, queryParams);
 
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
+  return createFormattedResponse(response.status, responseData, format);
+};
 
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
-    });
+// Parses the optional simplify and precision parameters shared by geometry endpoints
+const parseGeometryOptions = (event: APIGatewayProxyEvent): GeometryOptions | ErrorBody => {
+  const simplify = event.queryStringParameters?.simplify;
+  const precision = event.queryStringParameters?.precision;
+  const options: GeometryOptions = {
+    simplify: simplify !== undefined ? parseFloat(simplify) : undefined,
+    precision: precision !== undefined ? Number(precision) : undefined
+  };
+  if (options.simplify !== undefined && !(options.simplify >= 0)) {
+    return { error: 'Invalid simplify', message: 'simplify must be a non-negative tolerance in degrees' };
   }
-
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
+  if (options.precision !== undefined &&
+      !(Number.isInteger(options.precision) && options.precision >= 0 && options.precision <= 15)) {
+    return { error: 'Invalid precision', message: 'precision must be an integer from 0 to 15' };
   }
+  return options;
+};
 
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
+const getZonePortById = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
   try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
+    const id = event.pathParameters?.id;
+    if (!id) {
+      return createErrorResponse(400, { error: 'ID is required' });
+    }
 
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+    const options = parseGeometryOptions(event);
+    if ('error' in options) {
+      return createErrorResponse(400, options);
+    }
 
-      // Append events from additional response to initial response
-      if (additionalResponse.data?.data?.events) {
-        responseData.data.events.push(...additionalResponse.data.data.events);
-      }
+    const record = await getRecordById(id, options);
+    if (!record) {
+      return createErrorResponse(404, { error: 'Record not found' });
     }
 
-    return createResponse(initialResponse.status, responseData);
+    return createResponse(200, record);
   } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
-    });
+    return handleError(error, 'zone and port handler');
   }
 };
 
-const getVesselsInZoneOrPort = async (
+// Geometry is omitted from list results; fetch /zones/{id} for a single zone's shape
+const withoutGeometry = (record: ZonePortRecord): ZonePortRecord => {
+  const { geometry_wkt, geometry_geojson, geometry_array, ...rest } = record;
+  return rest as ZonePortRecord;
+};
+
+// Same grouping as the keyword search response
+const splitByType = <T extends ZonePortRecord>(records: T[]) => ({
+  ports: records.filter(record => record.zone_type === 'Ports'),
+  zones: records.filter(record => record.zone_type !== 'Ports')
+});
+
+const getZonesContainingPoint = async (
   event: APIGatewayProxyEvent,
-  accessToken: string
+  _accessToken: string
 ): Promise<APIGatewayProxyResult> => {
-  const id = event.pathParameters?.id;
-  if (!id) {
-    return createResponse(400, { error: 'ID is required' });
+  const lat = parseFloat(event.queryStringParameters?.lat || '');
+  const lon = parseFloat(event.queryStringParameters?.lon || '');
+  if (!(lat >= -90 && lat <= 90) || !(lon >= -180 && lon <= 180)) {
+    return createErrorResponse(400, {
+      error: 'Invalid coordinates',
+      message: 'lat must be between -90 and 90 and lon between -180 and 180'
+    });
   }
 
-  const queryParams = event.queryStringParameters || {};
-  const getAll = queryParams.get_all === 'true';
-
-  const baseUrl = `${ZONE_AND_PORT_API_BASE_URL}/vessels-in-zone-or-port/id/:id`;
-  const targetUrl = new URL(baseUrl.replace(':id', id) || '');
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined && key !== 'get_all') {
-      targetUrl.searchParams.append(key, value);
+  const records = (await findContainingRecords(lon, lat)).map(withoutGeometry);
+  const { ports, zones } = splitByType(records);
+
+  return createResponse(200, {
+    meta: {
+      lat,
+      lon,
+      totalRecords: records.length,
+      totalPorts: ports.length,
+      totalZones: zones.length
+    },
+    data: {
+      ports,
+      zones
     }
   });
+};
 
-  // Make initial API call
-  const initialResponse = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  let responseData = initialResponse.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
-  }
-  responseData.meta.status_code = initialResponse.status;
-  responseData.meta.status_message = initialResponse.statusText;
+// Splits a bbox crossing the antimeridian (minLon > maxLon) into two boxes
+const parseBoundingBox = (value: string): BoundingBox[] | null => {
+  const parts = value.split(',').map(part => parseFloat(part));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
 
-  // If get_all is false or no pagination info, return initial response
-  if (!getAll || !responseData.meta.total_count || !responseData.meta.limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (minLat > maxLat || minLat < -90 || maxLat > 90 || minLon < -180 || maxLon > 180) return null;
+  return minLon <= maxLon
+    ? [[minLon, minLat, maxLon, maxLat]]
+    : [[minLon, minLat, 180, maxLat], [-180, minLat, maxLon, maxLat]];
+};
 
-  const totalCount = responseData.meta.total_count;
-  const limit = responseData.meta.limit;
+const getListParam = (event: APIGatewayProxyEvent, name: string): string[] | undefined =>
+  event.queryStringParameters?.[name]?.split(',').map(value => value.trim()).filter(value => value);
 
-  // Check if total count exceeds maximum limit
-  if (totalCount > MAX_RECORDS_LIMIT) {
-    return createResponse(413, {
-      error: "Request exceeds maximum record limit",
-      message: `The total number of records (${totalCount}) exceeds the maximum limit of ${MAX_RECORDS_LIMIT}. Please refine your query parameters to return fewer results.`
+const searchZonesSpatially = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const queryParams = event.queryStringParameters || {};
+  const filters: RecordFilters = {
+    zone_type: getListParam(event, 'zone_type'),
+    iso3_code: getListParam(event, 'iso3_code')
+  };
+
+  if (!!queryParams.bbox === !!queryParams.near) {
+    return createErrorResponse(400, {
+      error: 'Invalid search parameters',
+      message: 'Provide either bbox=minLon,minLat,maxLon,maxLat or near=lat,lon with radius_km'
     });
   }
 
-  // If total count is less than or equal to limit, return initial response
-  if (totalCount <= limit) {
-    return createResponse(initialResponse.status, responseData);
-  }
-
-  // Calculate number of additional requests needed
-  const totalRequests = Math.ceil(totalCount / limit);
-  const remainingRequests = totalRequests - 1; // Subtract 1 for initial request
-
-  try {
-    // Make additional API calls
-    for (let i = 1; i <= remainingRequests; i++) {
-      const offset = i * limit;
-      targetUrl.searchParams.set('offset', offset.toString());
-
-      const additionalResponse = await axios.get(targetUrl.toString(), {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
+  if (queryParams.bbox) {
+    const boxes = parseBoundingBox(queryParams.bbox);
+    if (!boxes) {
+      return createErrorResponse(400, {
+        error: 'Invalid bbox',
+        message: 'bbox must be minLon,minLat,maxLon,maxLat in degrees'
       });
+    }
 
-      // Append vessels from additional response to initial response
-      if (additionalResponse.data?.data?.vessels) {
-        responseData.data.vessels.push(...additionalResponse.data.data.vessels);
+    const results = await Promise.all(boxes.map(bbox => findRecordsInBoundingBox(bbox, filters)));
+    const records = Array.from(new Set(results.flat())).map(withoutGeometry);
+    const { ports, zones } = splitByType(records);
+    return createResponse(200, {
+      meta: {
+        bbox: queryParams.bbox,
+        filters,
+        totalRecords: records.length,
+        totalPorts: ports.length,
+        totalZones: zones.length
+      },
+      data: {
+        ports,
+        zones
       }
-    }
+    });
+  }
 
-    return createResponse(initialResponse.status, responseData);
-  } catch (error) {
-    if (error instanceof AxiosError) {
-      return createResponse(error.response?.status || 500, {
-        error: "Error fetching additional records",
-        message: error.message
-      });
-    }
-    return createResponse(500, {
-      error: "Internal server error",
-      message: "An unexpected error occurred while fetching additional records"
+  const [lat, lon] = queryParams.near!.split(',').map(part => parseFloat(part));
+  const radiusKm = parseFloat(queryParams.radius_km || '');
+  if (!(lat >= -90 && lat <= 90) || !(lon >= -180 && lon <= 180) ||
+      !(radiusKm > 0 && radiusKm <= MAX_SEARCH_RADIUS_KM)) {
+    return createErrorResponse(400, {
+      error: 'Invalid near search',
+      message: `near must be lat,lon and radius_km a positive number up to ${MAX_SEARCH_RADIUS_KM}`
     });
   }
+
+  const results = await findRecordsNear(lon, lat, radiusKm, filters);
+  const records = results.map(({ record, distance_km }) => ({
+    ...withoutGeometry(record),
+    distance_km: Math.round(distance_km * 1000) / 1000
+  }));
+  const { ports, zones } = splitByType(records);
+  return createResponse(200, {
+    meta: {
+      lat,
+      lon,
+      radius_km: radiusKm,
+      filters,
+      totalRecords: records.length,
+      totalPorts: ports.length,
+      totalZones: zones.length
+    },
+    data: {
+      ports,
+      zones
+    }
+  });
 };
 
-const getZoneAndPortList = async (
+const getZonesGeoJSON = async (
   event: APIGatewayProxyEvent,
-  accessToken: string
+  _accessToken: string
 ): Promise<APIGatewayProxyResult> => {
-  const queryParams = event.queryStringParameters || {};
+  const options = parseGeometryOptions(event);
+  if ('error' in options) {
+    return createErrorResponse(400, options);
+  }
 
-  const baseUrl = `${ZONE_AND_PORT_API_BASE_URL}/zones`;
-  const targetUrl = new URL(baseUrl);
-  
-  Object.entries(queryParams).forEach(([key, value]) => {
-    if (value !== undefined) {
-      targetUrl.searchParams.append(key, value);
+  const filters: RecordFilters = {
+    zone_type: getListParam(event, 'zone_type'),
+    zone_sub_type: getListParam(event, 'zone_sub_type'),
+    iso3_code: getListParam(event, 'iso3_code')
+  };
+  const features = (await getFeatures()).filter(feature => matchesFilters(feature.properties as ZonePortRecord, filters));
+
+  // Serialise feature by feature rather than building one large object
+  const chunks = ['{"type":"FeatureCollection","features":['];
+  let size = chunks[0].length;
+  for (let i = 0; i < features.length; i++) {
+    const feature = features[i];
+    const chunk = (i > 0 ? ',' : '') + JSON.stringify({
+      ...feature,
+      geometry: applyGeometryOptions(feature.geometry, options)
+    });
+    size += Buffer.byteLength(chunk);
+    if (size > MAX_RESPONSE_BYTES) {
+      return createErrorResponse(413, {
+        error: 'Response too large',
+        message: `The ${features.length} matching features exceed the response size limit. Filter by zone_type, zone_sub_type or iso3_code, pass simplify and precision, or use /zones/tiles/{z}/{x}/{y}.mvt.`
+      });
     }
-  });
-
-  const response = await axios.get(targetUrl.toString(), {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-
-  const responseData = response.data;
-  if (!responseData.meta) {
-    responseData.meta = {};
+    chunks.push(chunk);
   }
-  responseData.meta.status_code = response.status;
-  responseData.meta.status_message = response.statusText;
-
-  return createResponse(response.status, responseData);
+  chunks.push(']}');
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/geo+json',
+      'Cache-Control': MAP_DATA_CACHE_CONTROL,
+      ...getCorsHeaders(getRequestOrigin(event))
+    },
+    body: chunks.join('')
+  };
 };
 
-const getZonePortById = async (
+const getZoneTile = async (
   event: APIGatewayProxyEvent,
   _accessToken: string
 ): Promise<APIGatewayProxyResult> => {
-  try {
-    const id = event.pathParameters?.id;
-    if (!id) {
-      return createResponse(400, { error: 'ID is required' });
-    }
+  const [z, x, y] = ['z', 'x', 'y'].map(name => Number(event.pathParameters?.[name]));
+  if (!Number.isInteger(z) || z < 0 || z > MAX_TILE_ZOOM ||
+      !Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+    return createErrorResponse(400, {
+      error: 'Invalid tile coordinates',
+      message: `z must be from 0 to ${MAX_TILE_ZOOM}, and x and y from 0 to 2^z - 1`
+    });
+  }
 
-    const record = await getRecordById(id);
-    if (!record) {
-      return createResponse(404, { error: 'Record not found' });
-    }
+  const headers = {
+    'Content-Type': 'application/vnd.mapbox-vector-tile',
+    'Cache-Control': MAP_DATA_CACHE_CONTROL,
+    ...getCorsHeaders(getRequestOrigin(event))
+  };
 
-    return createResponse(200, record);
-  } catch (error) {
-    return handleError(error);
+  const tile = await getVectorTile(z, x, y);
+  if (!tile) {
+    return { statusCode: 204, headers, body: '' };
   }
+  return {
+    statusCode: 200,
+    headers,
+    body: tile.toString('base64'),
+    isBase64Encoded: true
+  };
 };
 
 // Route configuration
 const endpoints: EndpointConfig[] = [
+  {
+    method: 'GET',
+    path: '/zones.geojson',
+    handler: getZonesGeoJSON,
+    requiresAuth: false
+  },
+  {
+    method: 'GET',
+    path: '/zones/tiles/{z}/{x}/{y}.mvt',
+    handler: getZoneTile,
+    requiresAuth: false
+  },
+  {
+    method: 'GET',
+    path: '/zones/search',
+    handler: searchZonesSpatially,
+    requiresAuth: false
+  },
+  {
+    method: 'GET',
+    path: '/zones/containing',
+    handler: getZonesContainingPoint,
+    requiresAuth: false
+  },
   {
     method: 'GET',
     path: '/zones/{id}',
@@ -290,69 +361,33 @@ const endpoints: EndpointConfig[] = [
   },
   {
     method: 'GET',
-    path: '/zone-and-port-insights/zone-and-port-traffic/id/{id}',
-    handler: getZoneAndPortTraffic,
-    requiresAuth: true
+    path: ZONE_AND_PORT_TRAFFIC.path,
+    handler: createCollectionHandler(ZONE_AND_PORT_TRAFFIC),
+    requiresAuth: true,
+    cache: CACHE_POLICIES.standard
   },
   {
     method: 'GET',
-    path: '/zone-and-port-insights/vessels-in-zone-or-port/id/{id}',
-    handler: getVesselsInZoneOrPort,
-    requiresAuth: true
+    path: VESSELS_IN_ZONE_OR_PORT.path,
+    handler: createCollectionHandler(VESSELS_IN_ZONE_OR_PORT),
+    requiresAuth: true,
+    cache: CACHE_POLICIES.live
   },
   {
     method: 'GET',
     path: '/zone-and-port-insights/zones',
     handler: getZoneAndPortList,
-    requiresAuth: true
+    requiresAuth: true,
+    cache: CACHE_POLICIES.standard
   }
 ];
 
 // Main handler
+const route = createRouter(endpoints, 'zone and port handler');
+
 export const handler = async (
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> => {
   console.log('Received event:', JSON.stringify(event, null, 2));
-  
-  // Handle OPTIONS requests for CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createOptionsResponse();
-  }
-
-  try {
-    // Find matching endpoint using path parameters
-    const endpoint = endpoints.find(e => {
-      if (e.method !== event.httpMethod) return false;
-      
-      // Convert endpoint path pattern to regex
-      const pathPattern = e.path.replace(/{[^/]+}/g, '[^/]+');
-      const pathRegex = new RegExp(`^${pathPattern}$`);
-      
-      const matches = pathRegex.test(event.path);
-      console.log(`Testing path "${event.path}" against pattern "${pathPattern}": ${matches}`);
-      return matches;
-    });
-
-    if (!endpoint) {
-      console.log('No endpoint found for path:', event.path);
-      return createResponse(404, { error: 'Endpoint not found' });
-    }
-
-    console.log('Found matching endpoint:', endpoint.path);
-
-    // Check if endpoint requires authentication
-    if (endpoint.requiresAuth) {
-      const accessToken = extractAccessToken(event);
-      if (!accessToken) {
-        return createResponse(401, { error: 'Access token is required' });
-      }
-      return await endpoint.handler(event, accessToken);
-    }
-
-    // For endpoints that don't require auth
-    return await endpoint.handler(event, '');
-  } catch (error) {
-    console.error('Error in handler:', error);
-    return handleError(error);
-  }
+  return route(event);
 };
@@ -0,0 +1,62 @@
+import geojsonvt = require('geojson-vt');
+import { getFeatures, getDatasetGeneration } from '../zone-datasets/dataset';
+import { isGeoJsonGeometry } from '../utils/geo';
+
+// vt-pbf ships without type declarations
+const vtpbf: {
+  fromGeojsonVt: (layers: { [name: string]: geojsonvt.Tile }, options?: { version?: number; extent?: number }) => Uint8Array;
+} = require('vt-pbf');
+
+// Constants
+export const TILE_LAYER_NAME = 'zones';
+export const MAX_TILE_ZOOM = 14;
+const TILE_EXTENT = 4096;
+
+// Only these properties are kept in tiles to keep them small; use /zones/{id} for the rest
+const TILE_PROPERTIES = ['zone_id', 'name', 'zone_type', 'zone_sub_type', 'iso3_code', 'unlocode'];
+
+// Tile index over every zone and port, rebuilt when a new dataset version is loaded
+let tileIndex: ReturnType<typeof geojsonvt> | null = null;
+let tileIndexGeneration = -1;
+
+const getTileIndex = async (): Promise<ReturnType<typeof geojsonvt>> => {
+  const features = await getFeatures();
+  if (tileIndex && tileIndexGeneration === getDatasetGeneration()) {
+    return tileIndex;
+  }
+
+  console.log(`Building vector tile index over ${features.length} features...`);
+  tileIndex = geojsonvt({
+    type: 'FeatureCollection',
+    features: features.flatMap(({ id, geometry, properties }) => isGeoJsonGeometry(geometry)
+      ? [{
+        type: 'Feature' as const,
+        id,
+        geometry,
+        properties: Object.fromEntries(TILE_PROPERTIES.map(key => [key, properties[key] ?? null]))
+      }]
+      : [])
+  }, {
+    maxZoom: MAX_TILE_ZOOM,
+    indexMaxZoom: 5,
+    tolerance: 3,
+    extent: TILE_EXTENT,
+    buffer: 64
+  });
+  tileIndexGeneration = getDatasetGeneration();
+  return tileIndex;
+};
+
+/**
+ * Encodes one Mapbox Vector Tile with a single `zones` layer. Geometry is
+ * clipped to the tile and simplified for its zoom level. Returns null when no
+ * zone or port touches the tile.
+ */
+export const getVectorTile = async (z: number, x: number, y: number): Promise<Buffer | null> => {
+  const index = await getTileIndex();
+  const tile = index.getTile(z, x, y);
+  if (!tile || tile.features.length === 0) {
+    return null;
+  }
+  return Buffer.from(vtpbf.fromGeojsonVt({ [TILE_LAYER_NAME]: tile }, { version: 2, extent: TILE_EXTENT }));
+};
@@ -0,0 +1,563 @@
+import { parse } from 'csv-parse/sync';
+import * as wkt from 'wellknown';
+import {
+  BoundingBox,
+  Geometry,
+  PolygonalGeometry,
+  Position,
+  distanceToGeometryKm,
+  geometryIntersectsBoundingBox,
+  getAreaKm2,
+  getBoundingBox,
+  getCentroid,
+  getGeometryBoundingBox,
+  getRadiusBoundingBoxes,
+  haversineKm,
+  isGeoJsonGeometry,
+  pointInBoundingBox,
+  pointInGeometry,
+  roundGeometry,
+  simplifyGeometry,
+  toPointPositions,
+  toPolygonalGeometry,
+  unionBoundingBox
+} from '../utils/geo';
+import { SpatialIndex, SpatialEntry, createSpatialIndex } from '../utils/spatialIndex';
+import { PrefixIndex, PrefixEntry, createPrefixIndex } from '../utils/prefixIndex';
+import { compactText, foldText } from '../utils/text';
+import { LEGACY_DATASET_KEY, readCurrentPointer, getObjectETag, readObject, readObjectRange, readJson } from './storage';
+import {
+  DatasetIndex,
+  DatasetGeometries,
+  INDEX_FORMAT_VERSION,
+  buildDatasetIndex,
+  parseGeometryRows
+} from './datasetIndex';
+import { SearchableField, prepareQuery, prepareSearchFields, rankRecord } from './ranking';
+
+// Constants
+// How often a warm container checks whether a new dataset version was published
+const DATASET_CHECK_INTERVAL_MS = parseInt(process.env.DATASET_CHECK_INTERVAL_SECONDS || '60', 10) * 1000;
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 500;
+
+// Types
+export interface ZonePortRecord {
+  zone_id: string;
+  geometry_wkt?: string;
+  geometry_geojson?: Geometry | 'error';
+  geometry_array?: any[] | 'error';
+  [key: string]: any;
+}
+
+export interface GeometryOptions {
+  // Douglas-Peucker tolerance in degrees
+  simplify?: number;
+  // Decimal places kept in returned coordinates
+  precision?: number;
+}
+
+export interface RecordFilters {
+  zone_type?: string[];
+  zone_sub_type?: string[];
+  iso3_code?: string[];
+}
+
+export interface ZoneFeature {
+  type: 'Feature';
+  id: string;
+  properties: ZonePortRecord;
+  geometry: Geometry;
+}
+
+export interface IndexedZone {
+  record: ZonePortRecord;
+  // Polygon parts, or null for point-only records such as some ports
+  geometry: PolygonalGeometry | null;
+  points: Position[];
+  bbox: BoundingBox;
+}
+
+export interface SearchOptions {
+  // Restricts results, and the page, to ports or to zones
+  type?: 'ports' | 'zones';
+  limit?: number;
+  offset?: number;
+}
+
+export interface PrefixMatch {
+  record: ZonePortRecord;
+  // 4 exact UN/LOCODE, 3 exact name, 2 name or UN/LOCODE prefix, 1 prefix of a later word in the name
+  score: number;
+}
+
+export interface SearchResponse {
+  meta: {
+    keyword: string;
+    totalRecords: number;
+    totalPorts: number;
+    totalZones: number;
+    limit: number;
+    offset: number;
+  };
+  data: {
+    ports: ZonePortRecord[];
+    zones: ZonePortRecord[];
+  };
+}
+
+interface DatasetSource {
+  version: string;
+  csvKey: string;
+  indexKey: string | null;
+  geometriesKey: string | null;
+  geometryRowsKey: string | null;
+}
+
+interface LoadedDataset {
+  source: DatasetSource;
+  // Attribute records without WKT, in index row order
+  records: ZonePortRecord[];
+  rowsById: Map<string, number>;
+  searchFields: SearchableField[][];
+  // Loaded on first use unless the dataset was built from CSV in this container
+  geometries: (Geometry | null)[] | null;
+  // Byte ranges of single geometries in the geometry rows artifact, when it has one
+  geometryOffsets: number[] | null;
+}
+
+// In-memory dataset; a bumped generation tells derived caches to rebuild
+let dataset: LoadedDataset | null = null;
+let datasetGeneration = 0;
+let lastCheckedAt = 0;
+
+export const getDatasetGeneration = (): number => datasetGeneration;
+
+// Loading
+// Current dataset: the published pointer, or the legacy file keyed by its ETag
+const resolveCurrentDataset = async (): Promise<DatasetSource> => {
+  const pointer = await readCurrentPointer();
+  if (pointer) {
+    return {
+      version: pointer.version,
+      csvKey: pointer.key,
+      indexKey: pointer.index_key ?? null,
+      geometriesKey: pointer.geometries_key ?? null,
+      geometryRowsKey: pointer.geometry_rows_key ?? null
+    };
+  }
+  const etag = await getObjectETag(LEGACY_DATASET_KEY);
+  return {
+    version: `legacy:${etag}`,
+    csvKey: LEGACY_DATASET_KEY,
+    indexKey: null,
+    geometriesKey: null,
+    geometryRowsKey: null
+  };
+};
+
+const toLoadedDataset = (
+  source: DatasetSource,
+  index: DatasetIndex,
+  geometries: (Geometry | null)[] | null
+): LoadedDataset => {
+  const records = index.rows.map(row => {
+    const record: ZonePortRecord = { zone_id: '' };
+    index.columns.forEach((column, i) => {
+      record[column] = row[i];
+    });
+    return record;
+  });
+  return {
+    source,
+    records,
+    rowsById: new Map(records.map((record, row) => [record.zone_id, row])),
+    searchFields: index.search_fields.map(prepareSearchFields),
+    geometries,
+    geometryOffsets: source.geometryRowsKey && index.geometry_offsets?.length === records.length + 1
+      ? index.geometry_offsets
+      : null
+  };
+};
+
+// Prefers the precompiled index; datasets without one are parsed from CSV
+const loadDataset = async (source: DatasetSource): Promise<LoadedDataset> => {
+  if (source.indexKey) {
+    const index = await readJson<DatasetIndex>(source.indexKey);
+    if (index && index.format_version === INDEX_FORMAT_VERSION) {
+      console.log(`Loaded dataset index ${source.indexKey} with ${index.rows.length} records`);
+      return toLoadedDataset(source, index, null);
+    }
+    console.warn(`Dataset index ${source.indexKey} is missing or outdated, falling back to CSV`);
+  }
+
+  console.log(`Loading CSV from key: ${source.csvKey}`);
+  const buffer = await readObject(source.csvKey);
+  if (!buffer) {
+    throw new Error('No data in response');
+  }
+  const { index, geometries } = buildDatasetIndex(parse(buffer, { columns: true, skip_empty_lines: true }));
+  console.log(`Parsed ${index.rows.length} records from CSV`);
+  return toLoadedDataset(source, index, geometries.geometries);
+};
+
+const ensureDataset = async (): Promise<LoadedDataset> => {
+  if (dataset !== null && Date.now() - lastCheckedAt < DATASET_CHECK_INTERVAL_MS) {
+    return dataset;
+  }
+
+  let source: DatasetSource;
+  try {
+    source = await resolveCurrentDataset();
+    lastCheckedAt = Date.now();
+  } catch (error) {
+    // Keep serving the cached dataset if the version check fails
+    if (dataset !== null) {
+      console.error('Error checking dataset version, using cached dataset:', error);
+      return dataset;
+    }
+    throw error;
+  }
+
+  if (dataset !== null && source.version === dataset.source.version) {
+    return dataset;
+  }
+
+  try {
+    // Swap in the new dataset only once it is fully loaded
+    dataset = await loadDataset(source);
+    datasetGeneration++;
+    console.log(`Dataset version ${source.version} loaded`);
+    return dataset;
+  } catch (error) {
+    console.error('Error loading dataset:', error);
+    if (dataset !== null) {
+      return dataset;
+    }
+    throw error;
+  }
+};
+
+const ensureGeometries = async (loaded: LoadedDataset): Promise<(Geometry | null)[]> => {
+  if (loaded.geometries) {
+    return loaded.geometries;
+  }
+
+  let artifact: (Geometry | null)[] | null = null;
+  if (loaded.source.geometryRowsKey) {
+    const body = await readObject(loaded.source.geometryRowsKey);
+    artifact = body && parseGeometryRows(body);
+  } else if (loaded.source.geometriesKey) {
+    artifact = (await readJson<DatasetGeometries>(loaded.source.geometriesKey))?.geometries ?? null;
+  }
+  if (artifact && artifact.length === loaded.records.length) {
+    loaded.geometries = artifact;
+  } else {
+    // Rebuild from CSV when the artifact is missing or does not match the index
+    console.warn(`Geometry artifact for ${loaded.source.version} unavailable, parsing CSV`);
+    const buffer = await readObject(loaded.source.csvKey);
+    if (!buffer) {
+      throw new Error('No data in response');
+    }
+    loaded.geometries = buildDatasetIndex(parse(buffer, { columns: true, skip_empty_lines: true })).geometries.geometries;
+  }
+  return loaded.geometries;
+};
+
+/**
+ * Geometry of a single row. Reads only that row's byte range of the geometry
+ * rows artifact unless every geometry is already in memory; versions published
+ * without the artifact load them all.
+ */
+const getRowGeometry = async (loaded: LoadedDataset, row: number): Promise<Geometry | null> => {
+  if (loaded.geometries || !loaded.geometryOffsets || !loaded.source.geometryRowsKey) {
+    return (await ensureGeometries(loaded))[row];
+  }
+
+  const line = await readObjectRange(
+    loaded.source.geometryRowsKey,
+    loaded.geometryOffsets[row],
+    loaded.geometryOffsets[row + 1] - 1
+  );
+  if (!line) {
+    throw new Error(`Geometry rows artifact for ${loaded.source.version} is missing`);
+  }
+  return JSON.parse(line.toString('utf8')) as Geometry | null;
+};
+
+// Geometry conversion
+// Full coordinates with every part and ring; a GeometryCollection gives one entry per member
+const geometryToArray = (geometry: Geometry): any[] =>
+  geometry.type === 'GeometryCollection'
+    ? (geometry.geometries || []).map(geometryToArray)
+    : geometry.coordinates;
+
+const roundPosition = (position: Position | null, precision?: number): Position | null =>
+  position && precision !== undefined
+    ? position.map(value => Math.round(value * 10 ** precision) / 10 ** precision)
+    : position;
+
+export const applyGeometryOptions = (geometry: Geometry, options: GeometryOptions): Geometry => {
+  let output = geometry;
+  if (options.simplify !== undefined) {
+    output = simplifyGeometry(output, options.simplify);
+  }
+  if (options.precision !== undefined) {
+    output = roundGeometry(output, options.precision);
+  }
+  return output;
+};
+
+// Lookup
+// Attribute records without geometry
+export const getRecords = async (): Promise<ZonePortRecord[]> => (await ensureDataset()).records;
+
+/**
+ * A single zone or port with its geometry as WKT, GeoJSON and coordinate
+ * arrays, plus computed `bbox`, `centroid` and `area_km2`. Null when no record
+ * has the id; failures to load the dataset are thrown.
+ */
+export const getRecordById = async (
+  id: string,
+  options: GeometryOptions = {}
+): Promise<ZonePortRecord | null> => {
+  const loaded = await ensureDataset();
+  const row = loaded.rowsById.get(id);
+  if (row === undefined) {
+    console.log(`No record found for zone_id: ${id}`);
+    return null;
+  }
+
+  // Copy so geometry output never ends up in the shared cache
+  const record: ZonePortRecord = { ...loaded.records[row] };
+  const geometry = await getRowGeometry(loaded, row);
+  if (!geometry) {
+    return record;
+  }
+
+  // Computed attributes use the full-resolution geometry
+  const bbox = getGeometryBoundingBox(geometry);
+  const area = getAreaKm2(geometry);
+  record.geometry_wkt = isGeoJsonGeometry(geometry) ? wkt.stringify(geometry) : undefined;
+  record.bbox = bbox && roundPosition(bbox, options.precision);
+  record.centroid = roundPosition(getCentroid(geometry), options.precision);
+  record.area_km2 = area === null ? null : Math.round(area * 1000) / 1000;
+
+  const output = applyGeometryOptions(geometry, options);
+  record.geometry_geojson = output;
+  record.geometry_array = geometryToArray(output);
+  return record;
+};
+
+// Filter values are matched case-insensitively; any listed value matches
+export const matchesFilters = (record: ZonePortRecord, filters: RecordFilters): boolean =>
+  (Object.keys(filters) as (keyof RecordFilters)[]).every(field => {
+    const values = filters[field];
+    if (!values || values.length === 0) return true;
+    const value = String(record[field] || '').toLowerCase();
+    return values.some(wanted => wanted.toLowerCase() === value);
+  });
+
+// Keyword search
+/**
+ * Ranks ports and zones against a keyword: an exact UN/LOCODE first, then
+ * exact and prefix name matches, then token, substring and typo-tolerant
+ * matches, weighted by field. Each result carries its `score` and
+ * `matched_fields`; totals count every match, before `limit` and `offset`.
+ */
+export const search = async (keyword: string, options: SearchOptions = {}): Promise<SearchResponse> => {
+  const loaded = await ensureDataset();
+  const query = prepareQuery(keyword);
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  const offset = options.offset ?? 0;
+
+  const matches: ZonePortRecord[] = [];
+  loaded.records.forEach((record, row) => {
+    const match = rankRecord(query, loaded.searchFields[row]);
+    if (match) {
+      matches.push({ ...record, ...match });
+    }
+  });
+  matches.sort((a, b) => b.score - a.score ||
+    String(a.name || '').localeCompare(String(b.name || '')) ||
+    a.zone_id.localeCompare(b.zone_id));
+
+  const isPort = (record: ZonePortRecord): boolean => record.zone_type === 'Ports';
+  const totalPorts = matches.filter(isPort).length;
+  const eligible = options.type ? matches.filter(record => isPort(record) === (options.type === 'ports')) : matches;
+  const page = eligible.slice(offset, offset + limit);
+
+  return {
+    meta: {
+      keyword,
+      totalRecords: matches.length,
+      totalPorts,
+      totalZones: matches.length - totalPorts,
+      limit,
+      offset
+    },
+    data: {
+      ports: page.filter(isPort),
+      zones: page.filter(record => !isPort(record))
+    }
+  };
+};
+
+// Prefix lookup
+// Prefix index over folded names, their words and compact UN/LOCODEs, rebuilt when the dataset changes
+interface PrefixTarget {
+  row: number;
+  // Scores for a prefix and for an exact match of this key
+  score: number;
+  exactScore: number;
+}
+
+let prefixIndex: PrefixIndex<PrefixTarget> | null = null;
+let prefixIndexGeneration = -1;
+
+const getPrefixIndex = async (): Promise<PrefixIndex<PrefixTarget>> => {
+  const loaded = await ensureDataset();
+  if (prefixIndex && prefixIndexGeneration === datasetGeneration) {
+    return prefixIndex;
+  }
+
+  const entries: PrefixEntry<PrefixTarget>[] = [];
+  loaded.records.forEach((record, row) => {
+    const name = foldText(String(record.name || ''));
+    entries.push({ key: name, item: { row, score: 2, exactScore: 3 } });
+    name.split(/[^a-z0-9]+/).slice(1).forEach(word => {
+      entries.push({ key: word, item: { row, score: 1, exactScore: 1 } });
+    });
+    entries.push({ key: compactText(String(record.unlocode || '')), item: { row, score: 2, exactScore: 4 } });
+  });
+
+  prefixIndex = createPrefixIndex(entries);
+  prefixIndexGeneration = datasetGeneration;
+  return prefixIndex;
+};
+
+/**
+ * Ports and zones whose name, a word of the name or UN/LOCODE starts with the
+ * prefix, best first, then shortest name first.
+ */
+export const findRecordsByPrefix = async (
+  prefix: string,
+  options: { type?: 'ports' | 'zones'; limit: number }
+): Promise<PrefixMatch[]> => {
+  const loaded = await ensureDataset();
+  const index = await getPrefixIndex();
+
+  const best = new Map<number, number>();
+  Array.from(new Set([foldText(prefix), compactText(prefix)])).forEach(key => {
+    index.search(key).forEach(entry => {
+      const score = entry.key === key ? entry.item.exactScore : entry.item.score;
+      best.set(entry.item.row, Math.max(best.get(entry.item.row) ?? 0, score));
+    });
+  });
+
+  return Array.from(best.entries())
+    .map(([row, score]) => ({ record: loaded.records[row], score }))
+    .filter(({ record }) => !options.type || (record.zone_type === 'Ports') === (options.type === 'ports'))
+    .sort((a, b) => b.score - a.score ||
+      String(a.record.name || '').length - String(b.record.name || '').length ||
+      String(a.record.name || '').localeCompare(String(b.record.name || '')))
+    .slice(0, options.limit);
+};
+
+// GeoJSON features for every record with a geometry, rebuilt when the dataset changes
+let featuresCache: ZoneFeature[] | null = null;
+let featuresGeneration = -1;
+
+export const getFeatures = async (): Promise<ZoneFeature[]> => {
+  const loaded = await ensureDataset();
+  if (featuresCache && featuresGeneration === datasetGeneration) {
+    return featuresCache;
+  }
+
+  const geometries = await ensureGeometries(loaded);
+  const features: ZoneFeature[] = [];
+  loaded.records.forEach((record, row) => {
+    const geometry = geometries[row];
+    if (geometry) {
+      features.push({ type: 'Feature', id: record.zone_id, properties: record, geometry });
+    }
+  });
+
+  featuresCache = features;
+  featuresGeneration = datasetGeneration;
+  return featuresCache;
+};
+
+// Spatial queries
+// Spatial index over zone and port geometries, rebuilt when the dataset changes
+let spatialIndex: SpatialIndex<IndexedZone> | null = null;
+let spatialIndexGeneration = -1;
+
+export const getSpatialIndex = async (): Promise<SpatialIndex<IndexedZone>> => {
+  const features = await getFeatures();
+  if (spatialIndex && spatialIndexGeneration === datasetGeneration) {
+    return spatialIndex;
+  }
+
+  const entries: SpatialEntry<IndexedZone>[] = [];
+  features.forEach(feature => {
+    const geometry = toPolygonalGeometry(feature.geometry);
+    const points = toPointPositions(feature.geometry);
+    if (!geometry && points.length === 0) return;
+
+    const bbox = unionBoundingBox([
+      ...(geometry ? [getBoundingBox(geometry)] : []),
+      ...points.map(([lon, lat]): BoundingBox => [lon, lat, lon, lat])
+    ]);
+    entries.push({ bbox, item: { record: feature.properties, geometry, points, bbox } });
+  });
+
+  console.log(`Building spatial index over ${entries.length} geometries...`);
+  spatialIndex = createSpatialIndex(entries);
+  spatialIndexGeneration = datasetGeneration;
+  return spatialIndex;
+};
+
+// Every zone and port whose polygon (any part, outside any hole) contains the point
+export const findContainingRecords = async (lon: number, lat: number): Promise<ZonePortRecord[]> => {
+  const index = await getSpatialIndex();
+  return index.search([lon, lat, lon, lat])
+    .filter(zone => zone.geometry && pointInGeometry([lon, lat], zone.geometry))
+    .map(zone => zone.record);
+};
+
+// Zones and ports whose geometry intersects the box, not just its bounding box
+export const findRecordsInBoundingBox = async (
+  bbox: BoundingBox,
+  filters: RecordFilters = {}
+): Promise<ZonePortRecord[]> => {
+  const index = await getSpatialIndex();
+  return index.search(bbox)
+    .filter(zone => matchesFilters(zone.record, filters))
+    .filter(zone => (zone.geometry && geometryIntersectsBoundingBox(zone.geometry, bbox)) ||
+      zone.points.some(point => pointInBoundingBox(point, bbox)))
+    .map(zone => zone.record);
+};
+
+// Zones and ports within radiusKm of the point, nearest first; zero distance means inside
+export const findRecordsNear = async (
+  lon: number,
+  lat: number,
+  radiusKm: number,
+  filters: RecordFilters = {}
+): Promise<{ record: ZonePortRecord; distance_km: number }[]> => {
+  const index = await getSpatialIndex();
+  // A zone spanning the antimeridian can be found in both boxes
+  const candidates = new Set(getRadiusBoundingBoxes([lon, lat], radiusKm).flatMap(bbox => index.search(bbox)));
+  return Array.from(candidates)
+    .filter(zone => matchesFilters(zone.record, filters))
+    .map(zone => ({
+      record: zone.record,
+      distance_km: Math.min(
+        zone.geometry ? distanceToGeometryKm([lon, lat], zone.geometry) : Infinity,
+        ...zone.points.map(point => haversineKm([lon, lat], point))
+      )
+    }))
+    .filter(result => result.distance_km <= radiusKm)
+    .sort((a, b) => a.distance_km - b.distance_km);
+};
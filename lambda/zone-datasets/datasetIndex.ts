@@ -0,0 +1,94 @@
+import * as wkt from 'wellknown';
+import { Geometry } from '../utils/geo';
+import { foldText } from '../utils/text';
+
+// Constants
+export const INDEX_FORMAT_VERSION = 2;
+
+// Fields matched by keyword search, weighted in ranking.ts
+export const SEARCH_FIELDS = [
+  'name',
+  'iso3_code',
+  'country_common_name',
+  'country_official_name',
+  'description',
+  'subdivision',
+  'subdivision_name',
+  'unlocode',
+  'wpi_number',
+  'zone_type',
+  'zone_sub_type'
+];
+
+// Types
+/**
+ * Attribute index for a dataset version. Rows hold each record's values in
+ * `columns` order; WKT is not included, so the index stays small enough to load
+ * on every cold start.
+ */
+export interface DatasetIndex {
+  format_version: number;
+  columns: string[];
+  rows: string[][];
+  // SEARCH_FIELDS values per row, lowercased with diacritics removed
+  search_fields: string[][];
+  // Byte offset of each row's line in the geometry rows artifact, then its length;
+  // absent in indexes published before that artifact existed
+  geometry_offsets?: number[];
+}
+
+// Parsed GeoJSON geometry per row, as published before the geometry rows artifact
+export interface DatasetGeometries {
+  format_version: number;
+  geometries: (Geometry | null)[];
+}
+
+const parseGeometry = (wktString: string | undefined): Geometry | null => {
+  if (!wktString) return null;
+  try {
+    return (wkt.parse(wktString) as Geometry | null) || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Builds the attribute index and geometry artifacts from parsed CSV records.
+ * Run when a dataset version is published, and as a fallback for datasets that
+ * were published without artifacts.
+ */
+export const buildDatasetIndex = (
+  records: { [key: string]: string }[]
+): { index: DatasetIndex; geometries: DatasetGeometries } => {
+  const withIds = records.filter(record => record.zone_id);
+  const columns = Array.from(new Set(withIds.flatMap(record => Object.keys(record))))
+    .filter(column => column !== 'geometry_wkt');
+
+  const geometries = withIds.map(record => parseGeometry(record.geometry_wkt));
+  const index: DatasetIndex = {
+    format_version: INDEX_FORMAT_VERSION,
+    columns,
+    rows: withIds.map(record => columns.map(column => record[column] ?? '')),
+    search_fields: withIds.map(record => SEARCH_FIELDS.map(field => foldText((record[field] ?? '').toString())))
+  };
+
+  return {
+    index,
+    geometries: { format_version: INDEX_FORMAT_VERSION, geometries }
+  };
+};
+
+/**
+ * Serializes geometries as newline-delimited JSON, one row per line and 'null'
+ * for rows without one, with the byte offset of every line. Stored with the
+ * offsets in the index, a single geometry can be read without the others.
+ */
+export const serializeGeometryRows = (geometries: (Geometry | null)[]): { body: string; offsets: number[] } => {
+  const lines = geometries.map(geometry => `${JSON.stringify(geometry)}\n`);
+  const offsets = [0];
+  lines.forEach(line => offsets.push(offsets[offsets.length - 1] + Buffer.byteLength(line)));
+  return { body: lines.join(''), offsets };
+};
+
+export const parseGeometryRows = (body: Buffer): (Geometry | null)[] =>
+  body.toString('utf8').split('\n').filter(line => line).map(line => JSON.parse(line) as Geometry | null);
@@ -0,0 +1,185 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, PutObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { randomBytes } from 'crypto';
+import { EndpointConfig, createResponse, createErrorResponse, createRouter } from '../utils/proxy';
+import {
+  VERSIONS_PREFIX,
+  VERSION_PATTERN,
+  DatasetPointer,
+  uploadKey,
+  datasetKey,
+  reportKey,
+  indexKey,
+  geometriesKey,
+  geometryRowsKey,
+  readJson,
+  getObjectETag,
+  readCurrentPointer,
+  readCurrentPointerState,
+  writeCurrentPointer
+} from './storage';
+import { DatasetReport } from './publisher';
+
+// Initialize clients
+const s3Client = new S3Client({});
+
+// Constants
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+// Utility functions
+const createVersion = (): string =>
+  `${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}-${randomBytes(4).toString('hex')}`;
+
+// Endpoint handlers
+const createUpload = async (
+  _event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const version = createVersion();
+  const uploadUrl = await getSignedUrl(s3Client, new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: uploadKey(version),
+    ContentType: 'text/csv'
+  }), { expiresIn: UPLOAD_URL_EXPIRY_SECONDS });
+
+  return createResponse(201, {
+    version,
+    upload_url: uploadUrl,
+    upload_method: 'PUT',
+    upload_content_type: 'text/csv',
+    upload_expires_at: new Date(Date.now() + UPLOAD_URL_EXPIRY_SECONDS * 1000).toISOString(),
+    status_url: `/zones/datasets/${version}`
+  });
+};
+
+const listVersions = async (
+  _event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const versions: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await s3Client.send(new ListObjectsV2Command({
+      Bucket: BUCKET_NAME,
+      Prefix: VERSIONS_PREFIX,
+      Delimiter: '/',
+      ContinuationToken: continuationToken
+    }));
+    (page.CommonPrefixes || []).forEach(({ Prefix }) => {
+      if (Prefix) versions.push(Prefix.slice(VERSIONS_PREFIX.length).replace(/\/$/, ''));
+    });
+    continuationToken = page.NextContinuationToken;
+  } while (continuationToken);
+
+  return createResponse(200, {
+    data: {
+      current: await readCurrentPointer(),
+      // Version ids start with their timestamp, so this is newest first
+      versions: versions.sort().reverse()
+    }
+  });
+};
+
+const getVersion = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const version = event.pathParameters?.version;
+  if (!version || !VERSION_PATTERN.test(version)) {
+    return createErrorResponse(400, { error: 'Invalid dataset version' });
+  }
+
+  const report = await readJson<DatasetReport>(reportKey(version));
+  if (report) {
+    const pointer = await readCurrentPointer();
+    return createResponse(200, { data: { ...report, current: pointer?.version === version } });
+  }
+
+  // Uploaded but not yet validated by the publisher
+  if (await getObjectETag(uploadKey(version))) {
+    return createResponse(200, { data: { version, status: 'PENDING' } });
+  }
+  return createErrorResponse(404, { error: 'Dataset version not found' });
+};
+
+// Points current back at an earlier published version, e.g. to roll back a bad release
+const activateVersion = async (
+  event: APIGatewayProxyEvent,
+  _accessToken: string
+): Promise<APIGatewayProxyResult> => {
+  const version = event.pathParameters?.version;
+  if (!version || !VERSION_PATTERN.test(version)) {
+    return createErrorResponse(400, { error: 'Invalid dataset version' });
+  }
+
+  const report = await readJson<DatasetReport>(reportKey(version));
+  if (!report || report.status !== 'PUBLISHED') {
+    return createErrorResponse(409, { error: 'Only published dataset versions can be activated' });
+  }
+
+  const { pointer, etag } = await readCurrentPointerState();
+  const next: DatasetPointer = {
+    version,
+    key: datasetKey(version),
+    record_count: report.record_count,
+    published_at: new Date().toISOString(),
+    previous_version: pointer?.version ?? null
+  };
+  // Versions published before index artifacts existed are loaded from CSV, and
+  // those before the geometry rows artifact from the single geometries file
+  if (await getObjectETag(indexKey(version))) {
+    if (await getObjectETag(geometryRowsKey(version))) {
+      next.index_key = indexKey(version);
+      next.geometry_rows_key = geometryRowsKey(version);
+    } else if (await getObjectETag(geometriesKey(version))) {
+      next.index_key = indexKey(version);
+      next.geometries_key = geometriesKey(version);
+    }
+  }
+  if (!await writeCurrentPointer(next, etag)) {
+    return createErrorResponse(409, {
+      error: 'The current dataset changed during activation',
+      message: 'Check the current version and retry'
+    });
+  }
+  return createResponse(200, { data: next });
+};
+
+// Route configuration
+const endpoints: EndpointConfig[] = [
+  {
+    method: 'POST',
+    path: '/zones/datasets',
+    handler: createUpload,
+    requiresAuth: false,
+    role: 'admin',
+    audit: true
+  },
+  {
+    method: 'GET',
+    path: '/zones/datasets',
+    handler: listVersions,
+    requiresAuth: false,
+    role: 'operator'
+  },
+  {
+    method: 'GET',
+    path: '/zones/datasets/{version}',
+    handler: getVersion,
+    requiresAuth: false,
+    role: 'operator'
+  },
+  {
+    method: 'POST',
+    path: '/zones/datasets/{version}/activate',
+    handler: activateVersion,
+    requiresAuth: false,
+    role: 'admin',
+    audit: true
+  }
+];
+
+// Main handler
+export const handler = createRouter(endpoints, 'zone datasets handler');
@@ -0,0 +1,138 @@
+import { S3Event } from 'aws-lambda';
+import { parse } from 'csv-parse/sync';
+import {
+  UPLOAD_PREFIX,
+  VERSION_PATTERN,
+  LEGACY_DATASET_KEY,
+  DatasetPointer,
+  datasetKey,
+  reportKey,
+  indexKey,
+  geometryRowsKey,
+  readObject,
+  writeObject,
+  readCurrentPointer,
+  readCurrentPointerState,
+  writeCurrentPointer
+} from './storage';
+import { ValidationResult, DatasetDiff, validateDataset, diffDatasets } from './validation';
+import { buildDatasetIndex, serializeGeometryRows } from './datasetIndex';
+
+// Types
+export type DatasetStatus = 'PUBLISHED' | 'REJECTED';
+
+export interface DatasetReport {
+  version: string;
+  status: DatasetStatus;
+  record_count: number;
+  error_count: number;
+  errors: ValidationResult['errors'];
+  previous_version: string | null;
+  diff: (DatasetDiff & { added_count: number; removed_count: number; changed_count: number }) | null;
+  validated_at: string;
+}
+
+// Constants
+// Attempts at flipping the pointer when concurrent publishes keep changing it
+const MAX_POINTER_ATTEMPTS = 5;
+
+// Records of the dataset currently being served, from the pointer or the legacy key
+const loadCurrentRecords = async (pointer: DatasetPointer | null): Promise<{ [key: string]: string }[]> => {
+  const body = await readObject(pointer ? pointer.key : LEGACY_DATASET_KEY);
+  return body ? parse(body, { columns: true, skip_empty_lines: true }) : [];
+};
+
+/**
+ * Validates an uploaded zones CSV and, when it passes, stores it as a new
+ * version with its precompiled index and flips the current pointer to it, unless a later
+ * version was published meanwhile. A report with validation errors or the diff against the
+ * previous version is written either way.
+ */
+const publishUpload = async (key: string): Promise<void> => {
+  const version = key.slice(UPLOAD_PREFIX.length).replace(/\.csv$/, '');
+  if (!VERSION_PATTERN.test(version)) {
+    console.warn(`Ignoring upload with unexpected key: ${key}`);
+    return;
+  }
+
+  const csv = await readObject(key);
+  if (!csv) {
+    console.warn(`Upload ${key} no longer exists`);
+    return;
+  }
+
+  console.log(`Validating dataset version ${version}...`);
+  const validation = validateDataset(csv);
+  const pointer = await readCurrentPointer();
+  const report: DatasetReport = {
+    version,
+    status: validation.error_count === 0 ? 'PUBLISHED' : 'REJECTED',
+    record_count: validation.records.length,
+    error_count: validation.error_count,
+    errors: validation.errors,
+    previous_version: pointer?.version ?? null,
+    diff: null,
+    validated_at: new Date().toISOString()
+  };
+
+  if (report.status === 'REJECTED') {
+    console.warn(`Dataset version ${version} rejected with ${validation.error_count} errors`);
+    await writeObject(reportKey(version), JSON.stringify(report, null, 2), 'application/json');
+    return;
+  }
+
+  const diff = diffDatasets(await loadCurrentRecords(pointer), validation.records);
+  report.diff = {
+    added_count: diff.added.length,
+    removed_count: diff.removed.length,
+    changed_count: diff.changed.length,
+    ...diff
+  };
+
+  // Store the version, its artifacts and report before the pointer, so readers never see a missing file
+  const { index, geometries } = buildDatasetIndex(validation.records);
+  const geometryRows = serializeGeometryRows(geometries.geometries);
+  index.geometry_offsets = geometryRows.offsets;
+  await writeObject(datasetKey(version), csv, 'text/csv');
+  await writeObject(indexKey(version), JSON.stringify(index), 'application/json');
+  await writeObject(geometryRowsKey(version), geometryRows.body, 'application/x-ndjson');
+  await writeObject(reportKey(version), JSON.stringify(report, null, 2), 'application/json');
+  if (!await flipCurrentPointer(version, validation.records.length)) {
+    return;
+  }
+  console.log(`Published dataset version ${version}: +${diff.added.length} -${diff.removed.length} ~${diff.changed.length}`);
+};
+
+/**
+ * Points current at the version unless a later version was published in the
+ * meantime. Versions start with their upload time, so they order as strings;
+ * the conditional write retries when another publish changed the pointer.
+ */
+const flipCurrentPointer = async (version: string, recordCount: number): Promise<boolean> => {
+  for (let attempt = 0; attempt < MAX_POINTER_ATTEMPTS; attempt++) {
+    const { pointer, etag } = await readCurrentPointerState();
+    if (pointer && pointer.version >= version) {
+      console.warn(`Dataset version ${version} stored but not activated; ${pointer.version} is newer`);
+      return false;
+    }
+    const written = await writeCurrentPointer({
+      version,
+      key: datasetKey(version),
+      record_count: recordCount,
+      published_at: new Date().toISOString(),
+      previous_version: pointer?.version ?? null,
+      index_key: indexKey(version),
+      geometry_rows_key: geometryRowsKey(version)
+    }, etag);
+    if (written) return true;
+  }
+  throw new Error(`Current dataset pointer kept changing while publishing ${version}`);
+};
+
+// Main handler, triggered by uploads under the dataset upload prefix
+export const handler = async (event: S3Event): Promise<void> => {
+  for (const record of event.Records) {
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    await publishUpload(key);
+  }
+};
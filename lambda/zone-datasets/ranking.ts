@@ -0,0 +1,138 @@
+import { compactText, editDistance, foldText, maxTypos, tokenize } from '../utils/text';
+import { SEARCH_FIELDS } from './datasetIndex';
+
+// Constants
+// Relative importance of a match in each field; UN/LOCODE outranks name so an exact code wins
+export const FIELD_WEIGHTS: { [field: string]: number } = {
+  unlocode: 1.2,
+  name: 1,
+  wpi_number: 0.6,
+  iso3_code: 0.5,
+  country_common_name: 0.4,
+  country_official_name: 0.35,
+  subdivision_name: 0.35,
+  subdivision: 0.3,
+  zone_type: 0.25,
+  zone_sub_type: 0.25,
+  description: 0.2
+};
+
+// Score of the strongest way a keyword matches a single field
+const MATCH_SCORES = {
+  exact: 100,
+  prefix: 80,
+  token: 60,
+  token_prefix: 50,
+  substring: 30,
+  fuzzy: 25
+};
+
+// Deducted from a fuzzy match per edit
+const FUZZY_EDIT_PENALTY = 5;
+
+// Token-level matches gain up to this much by covering more of the field, so 'Rotterdam' beats 'Port of Rotterdam'
+const COVERAGE_BONUS = 4;
+
+// Added per additional matching field, enough to break ties but never to jump a tier
+const SECONDARY_MATCH_BONUS = 0.5;
+
+// Typo tolerance is limited to name-like fields; codes and descriptions must match as typed
+const FUZZY_FIELDS = new Set(['name', 'country_common_name', 'country_official_name', 'subdivision_name']);
+
+// Types
+export interface SearchableField {
+  // Folded value, its compact form and tokens, prepared once per dataset load
+  value: string;
+  compact: string;
+  tokens: string[];
+}
+
+export interface SearchQuery {
+  text: string;
+  compact: string;
+  tokens: string[];
+}
+
+export interface RankedMatch {
+  score: number;
+  matched_fields: string[];
+}
+
+// Preparation
+export const prepareSearchFields = (values: string[]): SearchableField[] =>
+  values.map(value => ({ value, compact: compactText(value), tokens: tokenize(value) }));
+
+export const prepareQuery = (keyword: string): SearchQuery => ({
+  text: foldText(keyword),
+  compact: compactText(keyword),
+  tokens: tokenize(keyword)
+});
+
+// Matching
+// Total edits needed to match every query token to some field token, or null if any token misses
+const fuzzyEdits = (queryTokens: string[], fieldTokens: string[]): number | null => {
+  let edits = 0;
+  for (const queryToken of queryTokens) {
+    const allowed = maxTypos(queryToken.length);
+    let best = allowed + 1;
+    for (const fieldToken of fieldTokens) {
+      best = Math.min(best, fieldToken.startsWith(queryToken) ? 0 : editDistance(queryToken, fieldToken, allowed));
+      if (best === 0) break;
+    }
+    if (best > allowed) return null;
+    edits += best;
+  }
+  return edits;
+};
+
+const matchField = (query: SearchQuery, field: SearchableField, fuzzy: boolean): number => {
+  if (!field.value) return 0;
+  if (field.value === query.text || (query.compact && field.compact === query.compact)) {
+    return MATCH_SCORES.exact;
+  }
+  if (field.value.startsWith(query.text)) return MATCH_SCORES.prefix;
+
+  const coverage = COVERAGE_BONUS * Math.min(1, query.tokens.length / Math.max(1, field.tokens.length));
+  if (query.tokens.length > 0) {
+    if (query.tokens.every(token => field.tokens.includes(token))) return MATCH_SCORES.token + coverage;
+    if (query.tokens.every(token => field.tokens.some(fieldToken => fieldToken.startsWith(token)))) {
+      return MATCH_SCORES.token_prefix + coverage;
+    }
+  }
+  if (field.value.includes(query.text)) return MATCH_SCORES.substring;
+
+  if (fuzzy && query.tokens.length > 0) {
+    const edits = fuzzyEdits(query.tokens, field.tokens);
+    if (edits !== null && edits > 0) return MATCH_SCORES.fuzzy + coverage - edits * FUZZY_EDIT_PENALTY;
+  }
+  return 0;
+};
+
+/**
+ * Scores a record's prepared SEARCH_FIELDS against a query. The record's score
+ * is its best weighted field match plus a small bonus for each other matching
+ * field; null means no field matched.
+ */
+export const rankRecord = (query: SearchQuery, fields: SearchableField[]): RankedMatch | null => {
+  let best = 0;
+  let others = 0;
+  const matched: string[] = [];
+
+  SEARCH_FIELDS.forEach((name, i) => {
+    const score = matchField(query, fields[i], FUZZY_FIELDS.has(name)) * FIELD_WEIGHTS[name];
+    if (score <= 0) return;
+    matched.push(name);
+    if (score > best) {
+      others += best > 0 ? 1 : 0;
+      best = score;
+    } else {
+      others++;
+    }
+  });
+
+  if (matched.length === 0) return null;
+  return {
+    score: Math.round((best + others * SECONDARY_MATCH_BONUS) * 100) / 100,
+    matched_fields: matched
+  };
+};
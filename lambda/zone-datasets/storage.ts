@@ -0,0 +1,152 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand
+} from '@aws-sdk/client-s3';
+
+const s3Client = new S3Client({});
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+
+// S3 layout for zone datasets
+export const LEGACY_DATASET_KEY = 'data/zones-ports.csv';
+export const DATASET_PREFIX = 'data/zones-ports/';
+export const CURRENT_POINTER_KEY = `${DATASET_PREFIX}current.json`;
+export const UPLOAD_PREFIX = `${DATASET_PREFIX}uploads/`;
+export const VERSIONS_PREFIX = `${DATASET_PREFIX}versions/`;
+
+export const uploadKey = (version: string): string => `${UPLOAD_PREFIX}${version}.csv`;
+export const datasetKey = (version: string): string => `${VERSIONS_PREFIX}${version}/zones-ports.csv`;
+export const reportKey = (version: string): string => `${VERSIONS_PREFIX}${version}/report.json`;
+export const indexKey = (version: string): string => `${VERSIONS_PREFIX}${version}/index.json`;
+export const geometriesKey = (version: string): string => `${VERSIONS_PREFIX}${version}/geometries.json`;
+export const geometryRowsKey = (version: string): string => `${VERSIONS_PREFIX}${version}/geometries.ndjson`;
+
+// Versions are generated by the upload route, e.g. '20250114T093000Z-1a2b3c4d'
+export const VERSION_PATTERN = /^\d{8}T\d{6}Z-[0-9a-f]{8}$/;
+
+// Types
+export interface DatasetPointer {
+  version: string;
+  key: string;
+  record_count: number;
+  published_at: string;
+  previous_version: string | null;
+  // Precompiled artifacts; versions published before they existed are parsed from CSV
+  index_key?: string;
+  geometries_key?: string;
+  // One geometry per line, so a single record's geometry can be read by byte range
+  geometry_rows_key?: string;
+}
+
+// Utility functions
+const isNotFound = (error: any): boolean =>
+  error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+
+const streamToBuffer = async (body: any): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Object body, or null when the key does not exist
+export const readObject = async (key: string): Promise<Buffer | null> => {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+    if (!response.Body) {
+      throw new Error('No data in response');
+    }
+    return await streamToBuffer(response.Body);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+// Bytes start to end, inclusive, of an object, or null when the key does not exist
+export const readObjectRange = async (key: string, start: number, end: number): Promise<Buffer | null> => {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      Range: `bytes=${start}-${end}`
+    }));
+    if (!response.Body) {
+      throw new Error('No data in response');
+    }
+    return await streamToBuffer(response.Body);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+// ETag of an object, or null when the key does not exist
+export const getObjectETag = async (key: string): Promise<string | null> => {
+  try {
+    const response = await s3Client.send(new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+    return response.ETag || null;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+export const readJson = async <T>(key: string): Promise<T | null> => {
+  const body = await readObject(key);
+  return body ? JSON.parse(body.toString('utf8')) as T : null;
+};
+
+export const writeObject = async (key: string, body: Buffer | string, contentType: string): Promise<void> => {
+  await s3Client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    Body: body,
+    ContentType: contentType
+  }));
+};
+
+export const readCurrentPointer = (): Promise<DatasetPointer | null> =>
+  readJson<DatasetPointer>(CURRENT_POINTER_KEY);
+
+// The pointer with the ETag it was read at, which writeCurrentPointer checks; null ETag when there is none
+export const readCurrentPointerState = async (): Promise<{ pointer: DatasetPointer | null; etag: string | null }> => {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: BUCKET_NAME, Key: CURRENT_POINTER_KEY }));
+    if (!response.Body) {
+      throw new Error('No data in response');
+    }
+    const body = await streamToBuffer(response.Body);
+    return { pointer: JSON.parse(body.toString('utf8')) as DatasetPointer, etag: response.ETag || null };
+  } catch (error) {
+    if (isNotFound(error)) return { pointer: null, etag: null };
+    throw error;
+  }
+};
+
+const isPreconditionFailed = (error: any): boolean =>
+  error?.name === 'PreconditionFailed' || error?.name === 'ConditionalRequestConflict' ||
+  error?.$metadata?.httpStatusCode === 412 || error?.$metadata?.httpStatusCode === 409;
+
+/**
+ * Replaces the pointer only if it is unchanged since it was read at `expectedETag`,
+ * or still absent when that is null. A single PUT replaces it atomically, so readers
+ * see either the old or the new version. Returns false when another writer got there first.
+ */
+export const writeCurrentPointer = async (pointer: DatasetPointer, expectedETag: string | null): Promise<boolean> => {
+  try {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: CURRENT_POINTER_KEY,
+      Body: JSON.stringify(pointer, null, 2),
+      ContentType: 'application/json',
+      ...(expectedETag ? { IfMatch: expectedETag } : { IfNoneMatch: '*' })
+    }));
+    return true;
+  } catch (error) {
+    if (isPreconditionFailed(error)) return false;
+    throw error;
+  }
+};
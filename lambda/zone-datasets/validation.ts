@@ -0,0 +1,132 @@
+import { parse } from 'csv-parse/sync';
+import * as wkt from 'wellknown';
+
+// Constants
+export const REQUIRED_COLUMNS = ['zone_id', 'name', 'zone_type', 'iso3_code', 'geometry_wkt'];
+
+// Reports list at most this many individual problems
+const MAX_REPORTED_ERRORS = 100;
+
+// ISO 3166-1 alpha-3 country codes
+const ISO3_CODES = new Set(`
+ABW AFG AGO AIA ALA ALB AND ARE ARG ARM ASM ATA ATF ATG AUS AUT AZE BDI BEL BEN BES BFA BGD BGR BHR BHS BIH BLM
+BLR BLZ BMU BOL BRA BRB BRN BTN BVT BWA CAF CAN CCK CHE CHL CHN CIV CMR COD COG COK COL COM CPV CRI CUB CUW CXR
+CYM CYP CZE DEU DJI DMA DNK DOM DZA ECU EGY ERI ESH ESP EST ETH FIN FJI FLK FRA FRO FSM GAB GBR GEO GGY GHA GIB
+GIN GLP GMB GNB GNQ GRC GRD GRL GTM GUF GUM GUY HKG HMD HND HRV HTI HUN IDN IMN IND IOT IRL IRN IRQ ISL ISR ITA
+JAM JEY JOR JPN KAZ KEN KGZ KHM KIR KNA KOR KWT LAO LBN LBR LBY LCA LIE LKA LSO LTU LUX LVA MAC MAF MAR MCO MDA
+MDG MDV MEX MHL MKD MLI MLT MMR MNE MNG MNP MOZ MRT MSR MTQ MUS MWI MYS MYT NAM NCL NER NFK NGA NIC NIU NLD NOR
+NPL NRU NZL OMN PAK PAN PCN PER PHL PLW PNG POL PRI PRK PRT PRY PSE PYF QAT REU ROU RUS RWA SAU SDN SEN SGP SGS
+SHN SJM SLB SLE SLV SMR SOM SPM SRB SSD STP SUR SVK SVN SWE SWZ SXM SYC SYR TCA TCD TGO THA TJK TKL TKM TLS TON
+TTO TUN TUR TUV TWN TZA UGA UKR UMI URY USA UZB VAT VCT VEN VGB VIR VNM VUT WLF WSM YEM ZAF ZMB ZWE
+`.trim().split(/\s+/));
+
+// Types
+export interface ValidationError {
+  // 1-based data row, or null for file-level problems
+  row: number | null;
+  zone_id?: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  records: { [key: string]: string }[];
+  error_count: number;
+  errors: ValidationError[];
+}
+
+export interface DatasetDiff {
+  added: string[];
+  removed: string[];
+  changed: { zone_id: string; fields: string[] }[];
+}
+
+/**
+ * Parses and validates a zones CSV. Checks required columns, unique non-empty
+ * `zone_id`, parseable `geometry_wkt` and ISO 3166-1 alpha-3 `iso3_code` values.
+ * Empty `iso3_code` is allowed for zones outside national waters.
+ */
+export const validateDataset = (csv: Buffer): ValidationResult => {
+  const errors: ValidationError[] = [];
+  let errorCount = 0;
+  const addError = (error: ValidationError) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+  };
+
+  let records: { [key: string]: string }[];
+  try {
+    records = parse(csv, { columns: true, skip_empty_lines: true });
+  } catch (error) {
+    addError({ row: null, message: `CSV could not be parsed: ${error instanceof Error ? error.message : error}` });
+    return { records: [], error_count: errorCount, errors };
+  }
+
+  if (records.length === 0) {
+    addError({ row: null, message: 'CSV contains no records' });
+    return { records, error_count: errorCount, errors };
+  }
+
+  const missingColumns = REQUIRED_COLUMNS.filter(column => !(column in records[0]));
+  if (missingColumns.length > 0) {
+    addError({ row: null, message: `Missing required columns: ${missingColumns.join(', ')}` });
+    return { records, error_count: errorCount, errors };
+  }
+
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const zoneId = record.zone_id?.trim();
+    if (!zoneId) {
+      addError({ row, message: 'zone_id is empty' });
+    } else if (seen.has(zoneId)) {
+      addError({ row, zone_id: zoneId, message: 'zone_id is not unique' });
+    } else {
+      seen.add(zoneId);
+    }
+
+    const iso3 = record.iso3_code?.trim();
+    if (iso3 && !ISO3_CODES.has(iso3.toUpperCase())) {
+      addError({ row, zone_id: zoneId, message: `iso3_code "${iso3}" is not a valid ISO 3166-1 alpha-3 code` });
+    }
+
+    let geometry: any = null;
+    try {
+      geometry = record.geometry_wkt ? wkt.parse(record.geometry_wkt) : null;
+    } catch (error) {
+      geometry = null;
+    }
+    if (!geometry) {
+      addError({ row, zone_id: zoneId, message: 'geometry_wkt is empty or not valid WKT' });
+    }
+  });
+
+  return { records, error_count: errorCount, errors };
+};
+
+// Zones added, removed and changed between two versions, compared field by field
+export const diffDatasets = (
+  previous: { [key: string]: string }[],
+  next: { [key: string]: string }[]
+): DatasetDiff => {
+  const previousById = new Map(previous.map(record => [record.zone_id, record]));
+  const nextById = new Map(next.map(record => [record.zone_id, record]));
+
+  const diff: DatasetDiff = { added: [], removed: [], changed: [] };
+  nextById.forEach((record, zoneId) => {
+    const before = previousById.get(zoneId);
+    if (!before) {
+      diff.added.push(zoneId);
+      return;
+    }
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(record)]))
+      .filter(field => (before[field] ?? '') !== (record[field] ?? ''));
+    if (fields.length > 0) {
+      diff.changed.push({ zone_id: zoneId, fields });
+    }
+  });
+  previousById.forEach((_record, zoneId) => {
+    if (!nextById.has(zoneId)) diff.removed.push(zoneId);
+  });
+
+  return diff;
+};
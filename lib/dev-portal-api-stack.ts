@@ -8,9 +8,49 @@ import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as appsync from '@aws-cdk/aws-appsync-alpha';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
 import * as path from 'path';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 
+// Routes that fan out into many upstream calls, e.g. voyage collections with get_all=true.
+// API Gateway cannot throttle on query parameters, so the whole route gets the stricter limits.
+const EXPENSIVE_ROUTES = [
+  '/voyage-insights/vessel-port-calls/{imo}',
+  '/voyage-insights/vessel-zone-and-port-events/{imo}',
+  '/voyage-insights/vessel-ais-reporting-gaps/{imo}',
+  '/voyage-insights/vessel-positional-discrepancies/{imo}',
+  '/voyage-insights/vessel-port-state-control/{imo}',
+  '/voyage-insights/vessel-timeline/{imo}',
+  '/voyage-insights/vessel-risk-score/{imo}',
+  '/zone-and-port-insights/vessels-in-zone-or-port/id/{id}'
+];
+
+// Usage plan tiers for API keys: steady-state rate and burst per key, monthly request
+// quota, and the tighter limits applied to EXPENSIVE_ROUTES
+const USAGE_TIERS: {
+  [tier: string]: {
+    throttle: apigateway.ThrottleSettings;
+    monthlyQuota: number;
+    expensiveThrottle: apigateway.ThrottleSettings;
+  };
+} = {
+  basic: {
+    throttle: { rateLimit: 5, burstLimit: 10 },
+    monthlyQuota: 10000,
+    expensiveThrottle: { rateLimit: 1, burstLimit: 2 }
+  },
+  standard: {
+    throttle: { rateLimit: 25, burstLimit: 50 },
+    monthlyQuota: 100000,
+    expensiveThrottle: { rateLimit: 2, burstLimit: 5 }
+  },
+  enterprise: {
+    throttle: { rateLimit: 100, burstLimit: 200 },
+    monthlyQuota: 1000000,
+    expensiveThrottle: { rateLimit: 10, burstLimit: 20 }
+  }
+};
+
 export class DevPortalApiStack extends cdk.Stack {
   constructor(scope: cdk.App, id: string, props?: cdk.StackProps) {
     super(scope, id, props);
@@ -90,8 +130,90 @@ export class DevPortalApiStack extends cdk.Stack {
       encryption: s3.BucketEncryption.S3_MANAGED,
     });
 
+    // Create S3 bucket for bulk export files
+    const exportsBucket = new s3.Bucket(this, 'ExportsBucket', {
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // For development - change for production
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      lifecycleRules: [
+        { expiration: Duration.days(7) }, // Export files are only kept for 7 days
+        { abortIncompleteMultipartUploadAfter: Duration.days(1) }
+      ],
+    });
+
+    // Create DynamoDB table for export job status
+    const exportJobsTable = new dynamodb.Table(this, 'ExportJobsTable', {
+      partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // For development - change for production
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Create DynamoDB table for cached upstream responses
+    const responseCacheTable = new dynamodb.Table(this, 'ResponseCacheTable', {
+      partitionKey: { name: 'cache_key', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Cached responses can always be refetched
+      timeToLiveAttribute: 'expires_at',
+    });
+
+    // Create DynamoDB table for server-side auth sessions
+    const sessionsTable = new dynamodb.Table(this, 'SessionsTable', {
+      partitionKey: { name: 'session_id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Users sign in again if sessions are lost
+      timeToLiveAttribute: 'expires_at',
+    });
+
+    // Create DynamoDB table for audit records of denied and destructive actions
+    const auditTable = new dynamodb.Table(this, 'AuditTable', {
+      partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      timeToLiveAttribute: 'expires_at',
+    });
+
+    // Add GSI for an actor's audit trail
+    auditTable.addGlobalSecondaryIndex({
+      indexName: 'principal-index',
+      partitionKey: { name: 'principal_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Create a secret for signing pagination cursors
+    const cursorSigningSecret = new secretsmanager.Secret(this, 'CursorSigningSecret', {
+      description: 'HMAC key for signing list pagination cursors',
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true
+      },
+    });
+
+    // Create a secret holding the admin key for zone dataset management
+    const datasetAdminSecret = new secretsmanager.Secret(this, 'ZoneDatasetAdminKey', {
+      description: 'Admin key accepted in X-Admin-Key for zone dataset and webhook administration',
+      generateSecretString: {
+        passwordLength: 48,
+        excludePunctuation: true
+      },
+    });
+
     // Create API Gateway
     const api = new apigateway.RestApi(this, 'DevPortalApi', {
+      // Vector tiles are returned base64-encoded by the Lambda and decoded here. Proxy responses are
+      // only decoded when the request's Accept matches, and map clients rarely send a tile type, so
+      // every type matches; responses without isBase64Encoded, e.g. JSON, still pass through as is.
+      // Request bodies then arrive base64-encoded and are decoded by the handlers (decodeRequestBody)
+      binaryMediaTypes: ['*/*'],
+      // Stage-wide limits also cover callers without an API key
+      deployOptions: {
+        throttlingRateLimit: 100,
+        throttlingBurstLimit: 200,
+        methodOptions: Object.fromEntries(EXPENSIVE_ROUTES.map(route => [
+          `${route}/GET`,
+          { throttlingRateLimit: 20, throttlingBurstLimit: 40 }
+        ]))
+      },
       defaultCorsPreflightOptions: {
         allowOrigins: process.env.ALLOWED_ORIGINS 
           ? process.env.ALLOWED_ORIGINS.split(',')
@@ -106,17 +228,47 @@ export class DevPortalApiStack extends cdk.Stack {
           'Access-Token',
           'Refresh-Token',
           'access-token',
-          'refresh-token'
+          'refresh-token',
+          'If-None-Match',
+          'Cache-Control',
+          'X-Admin-Key',
+          'X-Requested-With'
+        ],
+        exposeHeaders: [
+          'Access-Token',
+          'Refresh-Token',
+          'access-token',
+          'refresh-token',
+          'X-Total-Count',
+          'X-Next-Cursor',
+          'X-Prev-Cursor',
+          'ETag',
+          'X-Cache'
         ],
-        exposeHeaders: ['Access-Token', 'Refresh-Token', 'access-token', 'refresh-token'],
         allowCredentials: true,
         maxAge: Duration.seconds(3600)
       }
     });
 
+    // A wildcard origin could read responses made with a signed-in user's session cookie
+    const allowedOrigins = process.env.ALLOWED_ORIGINS || 'http://localhost:5173';
+    if (process.env.AUTH_SESSION_MODE === 'session' && allowedOrigins.split(',').includes('*')) {
+      throw new Error('AUTH_SESSION_MODE=session needs explicit ALLOWED_ORIGINS; remove the * entry');
+    }
+
     // Common environment variables for all Lambda functions
     const commonEnvironment = {
-      ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS || 'http://localhost:5173,*'
+      ALLOWED_ORIGINS: allowedOrigins,
+      // 'session' keeps Polestar tokens in SessionsTable behind an httpOnly cookie
+      AUTH_SESSION_MODE: process.env.AUTH_SESSION_MODE || 'header',
+      SESSIONS_TABLE: sessionsTable.tableName,
+      // 'None' lets a portal on another site send the cookie; only with that portal in ALLOWED_ORIGINS
+      SESSION_COOKIE_SAME_SITE: process.env.SESSION_COOKIE_SAME_SITE || 'Lax',
+      // Roles (viewer, operator, admin) come from this token claim, API_KEY_ROLES or the admin key
+      AUTH_ROLE_CLAIM: process.env.AUTH_ROLE_CLAIM || 'roles',
+      API_KEY_ROLES: process.env.API_KEY_ROLES || '{}',
+      ADMIN_KEY_SECRET_ARN: datasetAdminSecret.secretArn,
+      AUDIT_TABLE: auditTable.tableName
     };
 
     // Create Lambda functions
@@ -129,18 +281,28 @@ export class DevPortalApiStack extends cdk.Stack {
     const vesselHandler = new lambda.NodejsFunction(this, 'VesselHandler', {
       entry: path.join(__dirname, '../lambda/vessel/handler.ts'),
       handler: 'handler',
-      environment: commonEnvironment
+      timeout: Duration.seconds(30),  // Dossier requests fan out to several upstream APIs
+      environment: {
+        MAX_RECORDS_LIMIT: process.env.MAX_RECORDS_LIMIT || '5000',
+        PAGE_CONCURRENCY: process.env.PAGE_CONCURRENCY || '5',
+        RESPONSE_CACHE_TABLE: responseCacheTable.tableName,
+        ...commonEnvironment
+      }
     });
 
     const zoneAndPortHandler = new lambda.NodejsFunction(this, 'ZoneAndPortHandler', {
       entry: path.join(__dirname, '../lambda/zone-and-port/handler.ts'),
       handler: 'handler',
       runtime: awsLambda.Runtime.NODEJS_18_X,
-      memorySize: 512,  // Use 512MB for better free tier usage
+      memorySize: 1024,  // Spatial and vector tile indexes over the zones CSV are held in memory
       timeout: Duration.seconds(120),  // Keep Lambda timeout at 120 seconds for processing
       environment: {
         BUCKET_NAME: zoneDataBucket.bucketName,
+        DATASET_CHECK_INTERVAL_SECONDS: process.env.DATASET_CHECK_INTERVAL_SECONDS || '60',
         MAX_RECORDS_LIMIT: process.env.MAX_RECORDS_LIMIT || '5000',
+        PAGE_CONCURRENCY: process.env.PAGE_CONCURRENCY || '5',
+        RESPONSE_CACHE_TABLE: responseCacheTable.tableName,
+        CURSOR_SECRET_ARN: cursorSigningSecret.secretArn,
         ...commonEnvironment
       }
     });
@@ -149,9 +311,16 @@ export class DevPortalApiStack extends cdk.Stack {
       entry: path.join(__dirname, '../lambda/voyage/handler.ts'),
       handler: 'handler',
       runtime: awsLambda.Runtime.NODEJS_18_X,
+      memorySize: 512,  // Risk scoring loads high-risk zone geometry from the zones CSV
       timeout: Duration.seconds(120),  // Set timeout to 120 seconds for processing large datasets
       environment: {
+        BUCKET_NAME: zoneDataBucket.bucketName,
+        DATASET_CHECK_INTERVAL_SECONDS: process.env.DATASET_CHECK_INTERVAL_SECONDS || '60',
+        HIGH_RISK_ZONE_TYPES: process.env.HIGH_RISK_ZONE_TYPES || 'High Risk Areas,Sanctioned Areas,War Risk Areas',
         MAX_RECORDS_LIMIT: process.env.MAX_RECORDS_LIMIT || '5000',
+        PAGE_CONCURRENCY: process.env.PAGE_CONCURRENCY || '5',
+        RESPONSE_CACHE_TABLE: responseCacheTable.tableName,
+        CURSOR_SECRET_ARN: cursorSigningSecret.secretArn,
         ...commonEnvironment
       }
     });
@@ -165,14 +334,89 @@ export class DevPortalApiStack extends cdk.Stack {
       }
     });
 
+    // Create a secret for Polestar API credentials
+    const polestarApiSecret = new secretsmanager.Secret(this, 'PolestarApiSecret', {
+      description: 'Polestar API credentials shared by vessel search and webhook auto screening',
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({
+          username: 'PLACEHOLDER',
+          api_key: 'PLACEHOLDER'
+        }),
+        generateStringKey: 'dummy' // This key won't be used but is required
+      },
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
     const webhookNotificationsHandler = new lambda.NodejsFunction(this, 'WebhookNotificationsHandler', {
       entry: path.join(__dirname, '../lambda/webhook-notifications/handler.ts'),
       handler: 'handler',
       environment: {
         ...commonEnvironment,
         NOTIFICATIONS_TABLE: notificationsTable.tableName,
-        PTE_USERNAME: process.env.PTE_USERNAME || '',
-        PTE_API_KEY: process.env.PTE_API_KEY || ''
+        POLESTAR_SECRET_ARN: polestarApiSecret.secretArn,
+      }
+    });
+
+    const exportWorker = new lambda.NodejsFunction(this, 'ExportWorker', {
+      entry: path.join(__dirname, '../lambda/exports/worker.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      memorySize: 1024,
+      timeout: Duration.minutes(15),  // Maximum Lambda timeout for long-running exports
+      ephemeralStorageSize: cdk.Size.gibibytes(2),  // CSV exports spool records to /tmp
+      environment: {
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+        PAGE_CONCURRENCY: process.env.PAGE_CONCURRENCY || '5',
+        ...commonEnvironment
+      }
+    });
+
+    const exportsHandler = new lambda.NodejsFunction(this, 'ExportsHandler', {
+      entry: path.join(__dirname, '../lambda/exports/handler.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      environment: {
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+        EXPORT_WORKER_FUNCTION: exportWorker.functionName,
+        ...commonEnvironment
+      }
+    });
+
+    // Self-service API keys. Usage plans are found by name at runtime, since their ids
+    // depend on the deployment stage, which in turn depends on this function's routes
+    const apiKeysHandler = new lambda.NodejsFunction(this, 'ApiKeysHandler', {
+      entry: path.join(__dirname, '../lambda/api-keys/handler.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      environment: {
+        USAGE_PLAN_NAME_PREFIX: `${this.stackName}-`,
+        DEFAULT_API_KEY_TIER: process.env.DEFAULT_API_KEY_TIER || 'basic',
+        MAX_API_KEYS_PER_CALLER: process.env.MAX_API_KEYS_PER_CALLER || '5',
+        ...commonEnvironment
+      }
+    });
+
+    const zoneDatasetsHandler = new lambda.NodejsFunction(this, 'ZoneDatasetsHandler', {
+      entry: path.join(__dirname, '../lambda/zone-datasets/handler.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      environment: {
+        BUCKET_NAME: zoneDataBucket.bucketName,
+        ...commonEnvironment
+      }
+    });
+
+    const zoneDatasetPublisher = new lambda.NodejsFunction(this, 'ZoneDatasetPublisher', {
+      entry: path.join(__dirname, '../lambda/zone-datasets/publisher.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      memorySize: 1024,  // Validates and diffs two full copies of the zones CSV
+      timeout: Duration.minutes(5),
+      reservedConcurrentExecutions: 1,  // Publish one upload at a time so pointer flips never race
+      environment: {
+        BUCKET_NAME: zoneDataBucket.bucketName
       }
     });
 
@@ -198,42 +442,152 @@ export class DevPortalApiStack extends cdk.Stack {
       memorySize: 512,
     });
 
-    // Create a secret for Polestar API credentials
-    const polestarApiSecret = new secretsmanager.Secret(this, 'PolestarApiSecret', {
-      description: 'Polestar API credentials for vessel search',
-      generateSecretString: {
-        secretStringTemplate: JSON.stringify({
-          username: 'PLACEHOLDER',
-          api_key: 'PLACEHOLDER'
-        }),
-        generateStringKey: 'dummy' // This key won't be used but is required
+    const searchHandler = new lambda.NodejsFunction(this, 'SearchHandler', {
+      entry: path.join(__dirname, '../lambda/search/searchHandler.ts'),
+      handler: 'handler',
+      runtime: awsLambda.Runtime.NODEJS_18_X,
+      environment: {
+        BUCKET_NAME: zoneDataBucket.bucketName,
+        DATASET_CHECK_INTERVAL_SECONDS: process.env.DATASET_CHECK_INTERVAL_SECONDS || '60',
+        POLESTAR_SECRET_ARN: polestarApiSecret.secretArn,
       },
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      timeout: Duration.seconds(30),
     });
 
-    const searchHandler = new awsLambda.Function(this, 'SearchHandler', {
+    // Typeahead suggestions across vessels, ports and zones
+    const searchSuggestHandler = new lambda.NodejsFunction(this, 'SearchSuggestHandler', {
+      entry: path.join(__dirname, '../lambda/search/suggestHandler.ts'),
+      handler: 'handler',
       runtime: awsLambda.Runtime.NODEJS_18_X,
-      handler: 'searchHandler.handler',
-      code: awsLambda.Code.fromAsset(path.join(__dirname, '../lambda/search')),
       environment: {
         BUCKET_NAME: zoneDataBucket.bucketName,
+        DATASET_CHECK_INTERVAL_SECONDS: process.env.DATASET_CHECK_INTERVAL_SECONDS || '60',
         POLESTAR_SECRET_ARN: polestarApiSecret.secretArn,
       },
-      timeout: Duration.seconds(30),
+      timeout: Duration.seconds(10),
+      memorySize: 512,
     });
 
-    // Grant the Lambda function permission to read the secret
+    // Verifies Polestar access tokens once at the gateway for the protected routes.
+    // Enabled when AUTH_JWKS_URL is set, so stages without the issuer's key set keep
+    // relying on Polestar to reject bad tokens upstream.
+    const authorizerHandler = process.env.AUTH_JWKS_URL
+      ? new lambda.NodejsFunction(this, 'AuthorizerHandler', {
+        entry: path.join(__dirname, '../lambda/authorizer/handler.ts'),
+        handler: 'handler',
+        environment: {
+          ...commonEnvironment,
+          AUTH_JWKS_URL: process.env.AUTH_JWKS_URL,
+          AUTH_ISSUER: process.env.AUTH_ISSUER || '',
+          AUTH_AUDIENCE: process.env.AUTH_AUDIENCE || '',
+          AUTH_TENANT_CLAIM: process.env.AUTH_TENANT_CLAIM || 'tenant_id'
+        },
+        timeout: Duration.seconds(10)
+      })
+      : undefined;
+    const apiAuthorizer = authorizerHandler
+      ? new apigateway.RequestAuthorizer(this, 'ApiAuthorizer', {
+        handler: authorizerHandler,
+        // Tokens may arrive in Authorization, access-token or the session cookie, and API
+        // Gateway requires every identity source to be present, so none are declared and
+        // decisions are cached in the authorizer instead of by the gateway
+        identitySources: [],
+        resultsCacheTtl: Duration.seconds(0)
+      })
+      : undefined;
+    // API_KEY_REQUIRED=true makes portal consumers send X-Api-Key so their usage plan applies;
+    // off by default since the browser portal signs in with Polestar tokens only
+    const apiKeyRequired = process.env.API_KEY_REQUIRED === 'true';
+    // Keys are issued to the principal the authorizer verified, so without it callers could never get one
+    if (apiKeyRequired && !apiAuthorizer) {
+      throw new Error('API_KEY_REQUIRED=true needs the request authorizer; set AUTH_JWKS_URL as well');
+    }
+    const authorizedMethod: apigateway.MethodOptions = apiAuthorizer
+      ? { authorizer: apiAuthorizer, authorizationType: apigateway.AuthorizationType.CUSTOM }
+      : {};
+    const protectedMethod: apigateway.MethodOptions = { ...authorizedMethod, apiKeyRequired };
+    // Static zone data and Polestar webhooks never take a user token
+    const publicMethod: apigateway.MethodOptions = { authorizationType: apigateway.AuthorizationType.NONE };
+    // Webhook routes are called by Polestar and operators, who authenticate with an API key
+    const webhookMethod: apigateway.MethodOptions = { ...publicMethod, apiKeyRequired: true };
+
+    if (authorizerHandler) {
+      // The authorizer reads tokens from sessions in session mode and may rotate them
+      sessionsTable.grantReadWriteData(authorizerHandler);
+
+      // Authorizer rejections carry CORS headers so browsers can see the 401 and refresh
+      api.addGatewayResponse('UnauthorizedResponse', {
+        type: apigateway.ResponseType.UNAUTHORIZED,
+        responseHeaders: {
+          'Access-Control-Allow-Origin': 'method.request.header.Origin',
+          'Access-Control-Allow-Credentials': "'true'"
+        }
+      });
+    }
+
+    // Grant the Lambda functions permission to read the secret
     polestarApiSecret.grantRead(searchHandler);
+    polestarApiSecret.grantRead(searchSuggestHandler);
+    polestarApiSecret.grantRead(webhookNotificationsHandler);
+
+    // Grant the paginated proxy Lambdas permission to read the cursor signing key
+    cursorSigningSecret.grantRead(zoneAndPortHandler);
+    cursorSigningSecret.grantRead(voyageHandler);
 
     // Grant Lambda permissions to DynamoDB
     notificationsTable.grantReadWriteData(zoneAndPortNotificationsHandler);
     notificationsTable.grantReadWriteData(webhookNotificationsHandler);
 
+    // Grant the auth Lambda and the authenticated proxy Lambdas access to sessions; proxies rotate tokens too
+    sessionsTable.grantReadWriteData(authHandler);
+    sessionsTable.grantReadWriteData(vesselHandler);
+    sessionsTable.grantReadWriteData(zoneAndPortHandler);
+    sessionsTable.grantReadWriteData(voyageHandler);
+    sessionsTable.grantReadWriteData(zoneAndPortNotificationsHandler);
+    sessionsTable.grantReadWriteData(exportsHandler);
+    // Export jobs keep their tokens in a session so the worker can refresh them mid-export
+    sessionsTable.grantReadWriteData(exportWorker);
+
+    // Grant the proxy Lambdas access to the response cache
+    responseCacheTable.grantReadWriteData(vesselHandler);
+    responseCacheTable.grantReadWriteData(zoneAndPortHandler);
+    responseCacheTable.grantReadWriteData(voyageHandler);
+
+    // Grant the export Lambdas access to job status, export files and the worker
+    exportJobsTable.grantReadWriteData(exportsHandler);
+    exportJobsTable.grantReadWriteData(exportWorker);
+    exportsBucket.grantPut(exportWorker);
+    exportsBucket.grantRead(exportsHandler);
+    exportWorker.grantInvoke(exportsHandler);
+
+    // Grant the zone dataset Lambdas access to uploads, versions and the current pointer
+    zoneDataBucket.grantReadWrite(zoneDatasetsHandler);
+    zoneDataBucket.grantReadWrite(zoneDatasetPublisher);
+
+    // Grant the Lambdas with role-restricted or audited routes the admin key and audit table
+    datasetAdminSecret.grantRead(zoneDatasetsHandler);
+    datasetAdminSecret.grantRead(webhookNotificationsHandler);
+    datasetAdminSecret.grantRead(zoneAndPortNotificationsHandler);
+    datasetAdminSecret.grantRead(apiKeysHandler);
+    auditTable.grantWriteData(zoneDatasetsHandler);
+    auditTable.grantWriteData(webhookNotificationsHandler);
+    auditTable.grantWriteData(zoneAndPortNotificationsHandler);
+    auditTable.grantWriteData(apiKeysHandler);
+
+    // Validate and publish zone datasets as soon as they are uploaded
+    zoneDataBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.LambdaDestination(zoneDatasetPublisher),
+      { prefix: 'data/zones-ports/uploads/', suffix: '.csv' }
+    );
+
     // Grant the Lambda function read access to the S3 bucket
     zoneDataBucket.grantRead(zoneAndPortHandler);
+    zoneDataBucket.grantRead(voyageHandler);
     zoneDataBucket.grantRead(zoneAndPortGetHandler);
     zoneDataBucket.grantRead(zoneAndPortSearchHandler);
     zoneDataBucket.grantRead(searchHandler);
+    zoneDataBucket.grantRead(searchSuggestHandler);
 
     // Create API routes
     const auth = api.root.addResource('account');
@@ -246,11 +600,31 @@ export class DevPortalApiStack extends cdk.Stack {
     auth.addResource('refresh-token')
       .addMethod('PUT', new apigateway.LambdaIntegration(authHandler));
 
+    // Sign-out endpoint, ends the server-side session in session mode
+    auth.addResource('signout')
+      .addMethod('POST', new apigateway.LambdaIntegration(authHandler));
+
+    // Self-service API keys with their usage plan and current-month usage. These never require
+    // a key themselves, or a new caller could not create their first one. Without the
+    // authorizer (AUTH_JWKS_URL) there is no verified caller and they answer 403.
+    const apiKeys = auth.addResource('api-keys');
+    apiKeys.addMethod('GET', new apigateway.LambdaIntegration(apiKeysHandler), authorizedMethod);
+    apiKeys.addMethod('POST', new apigateway.LambdaIntegration(apiKeysHandler), authorizedMethod);
+    apiKeys.addResource('{id}')
+      .addMethod('DELETE', new apigateway.LambdaIntegration(apiKeysHandler), authorizedMethod);
+
     // Vessel characteristics endpoint
     const vesselInsights = api.root.addResource('vessel-insights');
     const vesselCharacteristics = vesselInsights.addResource('vessel-characteristics');
     vesselCharacteristics.addResource('{imo}')
-      .addMethod('GET', new apigateway.LambdaIntegration(vesselHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(vesselHandler), protectedMethod);
+
+    // Vessel dossier endpoint
+    const vesselDossier = vesselInsights.addResource('dossier');
+    vesselDossier.addResource('{imo}')
+      .addMethod('GET', new apigateway.LambdaIntegration(vesselHandler, {
+        timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
+      }), protectedMethod);
 
     // Zone and Port endpoints
     const zoneAndPortInsights = api.root.addResource('zone-and-port-insights');
@@ -259,12 +633,40 @@ export class DevPortalApiStack extends cdk.Stack {
     const zoneAndPortTraffic = zoneAndPortInsights.addResource('zone-and-port-traffic');
     const zoneAndPortTrafficId = zoneAndPortTraffic.addResource('id');
     zoneAndPortTrafficId.addResource('{id}')
-      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), protectedMethod);
 
     // Add new zones endpoint for CSV data
     const zonesResource = api.root.addResource('zones');
     zonesResource.addResource('{id}')
-      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), publicMethod);
+
+    // Map data: a GeoJSON FeatureCollection and vector tiles. The last tile
+    // segment is e.g. '3.mvt'; the Lambda router reads y from the full path
+    api.root.addResource('zones.geojson')
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), publicMethod);
+    zonesResource.addResource('tiles')
+      .addResource('{z}')
+      .addResource('{x}')
+      .addResource('{tile}')
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), publicMethod);
+
+    // Zone dataset management: upload, status and diff reports, activation. The handler
+    // checks operator and admin roles, which come from the authorizer's claims and the API key
+    const zoneDatasets = zonesResource.addResource('datasets');
+    zoneDatasets.addMethod('GET', new apigateway.LambdaIntegration(zoneDatasetsHandler), protectedMethod);
+    zoneDatasets.addMethod('POST', new apigateway.LambdaIntegration(zoneDatasetsHandler), protectedMethod);
+    const zoneDatasetVersion = zoneDatasets.addResource('{version}');
+    zoneDatasetVersion.addMethod('GET', new apigateway.LambdaIntegration(zoneDatasetsHandler), protectedMethod);
+    zoneDatasetVersion.addResource('activate')
+      .addMethod('POST', new apigateway.LambdaIntegration(zoneDatasetsHandler), protectedMethod);
+
+    // Bounding-box and radius search over zones and ports
+    zonesResource.addResource('search')
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), publicMethod);
+
+    // Zones and ports containing a coordinate
+    zonesResource.addResource('containing')
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), publicMethod);
 
     // Vessels in Zone or Port endpoint
     const vesselsInZoneOrPort = zoneAndPortInsights.addResource('vessels-in-zone-or-port');
@@ -272,15 +674,17 @@ export class DevPortalApiStack extends cdk.Stack {
     const vesselsInZoneOrPortIdWithId = vesselsInZoneOrPortId.addResource('{id}');
     vesselsInZoneOrPortIdWithId.addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler, {
       timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-    }));
+    }), protectedMethod);
 
     // Zone & Port List endpoint
     const zones = zoneAndPortInsights.addResource('zones');
-    zones.addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler));
+    zones.addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortHandler), protectedMethod);
 
-    // Search endpoint
+    // Search endpoints call Polestar with the stack's own credentials, so they are protected and metered
     const search = api.root.addResource('search');
-    search.addMethod('GET', new apigateway.LambdaIntegration(searchHandler));
+    search.addMethod('GET', new apigateway.LambdaIntegration(searchHandler), protectedMethod);
+    search.addResource('suggest')
+      .addMethod('GET', new apigateway.LambdaIntegration(searchSuggestHandler), protectedMethod);
 
     // Voyage Insights Routes
     const voyageInsights = api.root.addResource('voyage-insights');
@@ -290,35 +694,55 @@ export class DevPortalApiStack extends cdk.Stack {
     vesselPortCalls.addResource('{imo}')
       .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
         timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-      }));
+      }), protectedMethod);
 
     // Vessel Zone and Port Events endpoint
     const vesselZoneAndPortEvents = voyageInsights.addResource('vessel-zone-and-port-events');
     vesselZoneAndPortEvents.addResource('{imo}')
       .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
         timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-      }));
+      }), protectedMethod);
 
     // Vessel AIS Reporting Gaps endpoint
     const vesselAisReportingGaps = voyageInsights.addResource('vessel-ais-reporting-gaps');
     vesselAisReportingGaps.addResource('{imo}')
       .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
         timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-      }));
+      }), protectedMethod);
 
     // Vessel Positional Discrepancies endpoint
     const vesselPositionalDiscrepancies = voyageInsights.addResource('vessel-positional-discrepancies');
     vesselPositionalDiscrepancies.addResource('{imo}')
       .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
         timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-      }));
+      }), protectedMethod);
 
     // Vessel Port State Control endpoint
     const vesselPortStateControl = voyageInsights.addResource('vessel-port-state-control');
     vesselPortStateControl.addResource('{imo}')
       .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
         timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
-      }));
+      }), protectedMethod);
+
+    // Vessel Timeline endpoint
+    const vesselTimeline = voyageInsights.addResource('vessel-timeline');
+    vesselTimeline.addResource('{imo}')
+      .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
+        timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
+      }), protectedMethod);
+
+    // Vessel Risk Score endpoint
+    const vesselRiskScore = voyageInsights.addResource('vessel-risk-score');
+    vesselRiskScore.addResource('{imo}')
+      .addMethod('GET', new apigateway.LambdaIntegration(voyageHandler, {
+        timeout: Duration.millis(29000)  // Set to API Gateway maximum timeout
+      }), protectedMethod);
+
+    // Bulk export job endpoints
+    const exportJobs = api.root.addResource('exports');
+    exportJobs.addMethod('POST', new apigateway.LambdaIntegration(exportsHandler), protectedMethod);
+    exportJobs.addResource('{id}')
+      .addMethod('GET', new apigateway.LambdaIntegration(exportsHandler), protectedMethod);
 
     // Zone and Port Notification endpoints
     const notifications = api.root.addResource('notifications');
@@ -326,32 +750,74 @@ export class DevPortalApiStack extends cdk.Stack {
     
     // Create subscription
     zoneAndPortNotifications
-      .addMethod('POST', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('POST', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
     
     // Get all subscriptions
     zoneAndPortNotifications
-      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
     
     // Single subscription operations
     const zoneAndPortNotificationId = zoneAndPortNotifications.addResource('{id}');
     zoneAndPortNotificationId
-      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
     zoneAndPortNotificationId
-      .addMethod('PUT', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('PUT', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
     zoneAndPortNotificationId
-      .addMethod('DELETE', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('DELETE', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
     
     // Get notifications for a subscription
     zoneAndPortNotificationId.addResource('notifications')
-      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler));
+      .addMethod('GET', new apigateway.LambdaIntegration(zoneAndPortNotificationsHandler), protectedMethod);
 
     // Add webhook notifications routes
     const webhookNotifications = api.root.addResource('webhook-notifications');
-    webhookNotifications.addMethod('POST', new apigateway.LambdaIntegration(webhookNotificationsHandler));
-    webhookNotifications.addMethod('GET', new apigateway.LambdaIntegration(webhookNotificationsHandler));
+    webhookNotifications.addMethod('POST', new apigateway.LambdaIntegration(webhookNotificationsHandler), webhookMethod);
+    webhookNotifications.addMethod('GET', new apigateway.LambdaIntegration(webhookNotificationsHandler), webhookMethod);
     
     const cleanup = webhookNotifications.addResource('cleanup');
-    cleanup.addMethod('DELETE', new apigateway.LambdaIntegration(webhookNotificationsHandler));
+    cleanup.addMethod('DELETE', new apigateway.LambdaIntegration(webhookNotificationsHandler), webhookMethod);
+
+    // Usage plans per tier, with stricter per-method limits on the expensive routes
+    const expensiveMethods = EXPENSIVE_ROUTES.map(route =>
+      api.root.resourceForPath(route).node.findChild('GET') as apigateway.Method);
+    Object.entries(USAGE_TIERS).forEach(([tier, limits]) => {
+      api.addUsagePlan(`UsagePlan-${tier}`, {
+        name: `${this.stackName}-${tier}`,
+        throttle: limits.throttle,
+        quota: { limit: limits.monthlyQuota, period: apigateway.Period.MONTH },
+        apiStages: [{
+          api,
+          stage: api.deploymentStage,
+          throttle: expensiveMethods.map(method => ({ method, throttle: limits.expensiveThrottle }))
+        }]
+      });
+    });
+
+    // Let the API keys Lambda issue, list and revoke keys and read their usage
+    apiKeysHandler.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['apigateway:GET', 'apigateway:POST', 'apigateway:DELETE'],
+      resources: [
+        `arn:${this.partition}:apigateway:${this.region}::/apikeys`,
+        `arn:${this.partition}:apigateway:${this.region}::/apikeys/*`,
+        `arn:${this.partition}:apigateway:${this.region}::/usageplans`,
+        `arn:${this.partition}:apigateway:${this.region}::/usageplans/*`
+      ]
+    }));
+
+    // Key for Polestar's webhook deliveries and operator cleanup calls, on its own plan
+    // so integration traffic never counts against a consumer's quota. Usage plans cover the
+    // whole stage, so tier keys pass the webhook routes' key check as well and the handler
+    // accepts only this key. It is attached to the stage through the plan alone, which keeps
+    // its id free of the stage and usable in the handler's environment.
+    const webhookApiKey = new apigateway.ApiKey(api, 'WebhookApiKey', {
+      description: 'Authenticates calls to /webhook-notifications'
+    });
+    api.addUsagePlan('UsagePlan-webhooks', {
+      name: `${this.stackName}-webhooks`,
+      throttle: { rateLimit: 50, burstLimit: 100 },
+      apiStages: [{ api, stage: api.deploymentStage }]
+    }).addApiKey(webhookApiKey);
+    webhookNotificationsHandler.addEnvironment('WEBHOOK_API_KEY_ID', webhookApiKey.keyId);
 
     // Add necessary outputs
     new cdk.CfnOutput(this, 'GraphQLApiUrl', {
@@ -366,5 +832,15 @@ export class DevPortalApiStack extends cdk.Stack {
       value: zoneDataBucket.bucketName,
       description: 'Name of the S3 bucket containing zone data'
     });
+
+    new cdk.CfnOutput(this, 'ExportsBucketName', {
+      value: exportsBucket.bucketName,
+      description: 'Name of the S3 bucket containing bulk export files'
+    });
+
+    new cdk.CfnOutput(this, 'WebhookApiKeyId', {
+      value: webhookApiKey.keyId,
+      description: 'ID of the API key for /webhook-notifications; read its value with aws apigateway get-api-key --include-value'
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+process.env.RESPONSE_CACHE_TABLE = 'response-cache';
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { CACHE_POLICIES, markUncacheable, withResponseCache } from '../lambda/utils/cache';
+
+const mockItems = new Map<string, any>();
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: {
+    DocumentClient: jest.fn(() => ({
+      get: (params: any) => ({ promise: async () => ({ Item: mockItems.get(params.Key.cache_key) }) }),
+      put: (params: any) => ({ promise: async () => { mockItems.set(params.Item.cache_key, params.Item); } })
+    }))
+  }
+}));
+
+const NOW = 1_700_000_000;
+
+const event = (overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent => ({
+  httpMethod: 'GET',
+  path: '/vessels/9321483',
+  headers: {},
+  queryStringParameters: null,
+  multiValueQueryStringParameters: null,
+  requestContext: {},
+  ...overrides
+} as unknown as APIGatewayProxyEvent);
+
+const authorized = (principalId: string, tenantId?: string) =>
+  ({ authorizer: { principalId, tenant_id: tenantId } }) as unknown as APIGatewayProxyEvent['requestContext'];
+
+const jwt = (payload: object): string =>
+  ['e30', Buffer.from(JSON.stringify(payload)).toString('base64url'), 'signature'].join('.');
+
+const upstream = (body = '{"imo":"9321483"}', response: Partial<APIGatewayProxyResult> = {}) =>
+  jest.fn(async (): Promise<APIGatewayProxyResult> => ({ statusCode: 200, headers: {}, body, ...response }));
+
+beforeEach(() => {
+  mockItems.clear();
+  jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('withResponseCache', () => {
+  test('serves the second request from the cache', async () => {
+    const execute = upstream();
+    const first = await withResponseCache(event(), '', CACHE_POLICIES.live, {}, execute);
+    const second = await withResponseCache(event(), '', CACHE_POLICIES.live, {}, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(first.headers).toMatchObject({ 'X-Cache': 'MISS', 'Cache-Control': 'public, max-age=60' });
+    expect(second.headers).toMatchObject({ 'X-Cache': 'HIT', 'ETag': first.headers!.ETag });
+    expect(second.body).toBe(first.body);
+  });
+
+  test('keeps the policy lifetime for a principal verified by the authorizer', async () => {
+    const response = await withResponseCache(
+      event({ requestContext: authorized('user-1') }), jwt({ exp: NOW + 30 }), CACHE_POLICIES.standard, {}, upstream()
+    );
+    expect(response.headers!['Cache-Control']).toBe('private, max-age=900');
+    expect([...mockItems.values()][0].expires_at).toBe(NOW + 900);
+  });
+
+  test('caps entries for an unverified token at its expiry', async () => {
+    const response = await withResponseCache(event(), jwt({ exp: NOW + 30 }), CACHE_POLICIES.standard, {}, upstream());
+    expect(response.headers!['Cache-Control']).toBe('private, max-age=30');
+    expect([...mockItems.values()][0].expires_at).toBe(NOW + 30);
+  });
+
+  test('bypasses the cache for expired and opaque tokens', async () => {
+    for (const token of [jwt({ exp: NOW - 1 }), 'opaque-token']) {
+      const execute = upstream();
+      await withResponseCache(event(), token, CACHE_POLICIES.standard, {}, execute);
+      await withResponseCache(event(), token, CACHE_POLICIES.standard, {}, execute);
+      expect(execute).toHaveBeenCalledTimes(2);
+    }
+    expect(mockItems.size).toBe(0);
+  });
+
+  test('does not store responses marked no-store', async () => {
+    const execute = jest.fn(async () => markUncacheable({ statusCode: 200, headers: {}, body: '{"partial":true}' }));
+    const response = await withResponseCache(event(), '', CACHE_POLICIES.live, {}, execute);
+    await withResponseCache(event(), '', CACHE_POLICIES.live, {}, execute);
+
+    expect(response.headers!['Cache-Control']).toBe('no-store');
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(mockItems.size).toBe(0);
+  });
+
+  test('separates tokens but shares entries within a tenant', async () => {
+    const token = jwt({ exp: NOW + 3600 });
+    const execute = upstream();
+    await withResponseCache(event(), token, CACHE_POLICIES.live, {}, execute);
+    await withResponseCache(event(), jwt({ exp: NOW + 3601 }), CACHE_POLICIES.live, {}, execute);
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    const tenantExecute = upstream();
+    await withResponseCache(event({ requestContext: authorized('user-1', 'acme') }), 'a', CACHE_POLICIES.live, {}, tenantExecute);
+    const shared = await withResponseCache(
+      event({ requestContext: authorized('user-2', 'acme') }), 'b', CACHE_POLICIES.live, {}, tenantExecute
+    );
+    expect(tenantExecute).toHaveBeenCalledTimes(1);
+    expect(shared.headers!['X-Cache']).toBe('HIT');
+  });
+
+  test('answers a matching If-None-Match with 304', async () => {
+    const first = await withResponseCache(event(), '', CACHE_POLICIES.live, {}, upstream());
+    const revalidated = await withResponseCache(
+      event({ headers: { 'if-none-match': first.headers!.ETag as string } }), '', CACHE_POLICIES.live, {}, upstream()
+    );
+    expect(revalidated.statusCode).toBe(304);
+    expect(revalidated.body).toBe('');
+  });
+});
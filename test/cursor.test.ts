@@ -0,0 +1,76 @@
+process.env.CURSOR_SECRET_ARN = 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:cursor';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { addCursorMeta, decodeCursor, encodeCursor, resolveQueryParams } from '../lambda/utils/cursor';
+
+jest.mock('../lambda/utils/secrets', () => ({
+  getSecretString: async () => 'test-cursor-secret'
+}));
+
+const SCOPE = '/voyage-insights/vessel-port-calls/9321483';
+
+describe('cursor signing', () => {
+  test('round-trips a payload for the same path', async () => {
+    const payload = { scope: SCOPE, query: { from: '2024-01-01' }, offset: 50, limit: 25 };
+    expect(await decodeCursor(await encodeCursor(payload), SCOPE)).toEqual(payload);
+  });
+
+  test('rejects a cursor issued for another path', async () => {
+    const token = await encodeCursor({ scope: SCOPE, query: {}, offset: 50 });
+    expect(await decodeCursor(token, '/voyage-insights/vessel-port-calls/9999999')).toBeNull();
+  });
+
+  test('rejects a tampered payload', async () => {
+    const token = await encodeCursor({ scope: SCOPE, query: {}, offset: 50 });
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ v: 1, scope: SCOPE, query: {}, offset: 0 })).toString('base64url');
+    expect(await decodeCursor(`${forged}.${signature}`, SCOPE)).toBeNull();
+  });
+
+  test('rejects a tampered signature and malformed tokens', async () => {
+    const [data, signature] = (await encodeCursor({ scope: SCOPE, query: {}, offset: 50 })).split('.');
+    const tampered = `${signature.startsWith('A') ? 'B' : 'A'}${signature.slice(1)}`;
+    expect(await decodeCursor(`${data}.${tampered}`, SCOPE)).toBeNull();
+    expect(await decodeCursor('not-a-cursor', SCOPE)).toBeNull();
+  });
+});
+
+describe('resolveQueryParams', () => {
+  const event = (query: { [key: string]: string }) =>
+    ({ path: SCOPE, queryStringParameters: query } as unknown as APIGatewayProxyEvent);
+
+  test('takes filters and paging from the cursor and control parameters from the request', async () => {
+    const cursor = await encodeCursor({ scope: SCOPE, query: { from: '2024-01-01' }, offset: 50, limit: 25 });
+    expect(await resolveQueryParams(event({ cursor, format: 'csv', from: '2020-01-01' }))).toEqual({
+      format: 'csv',
+      from: '2024-01-01',
+      offset: '50',
+      limit: '25'
+    });
+  });
+
+  test('returns null for an invalid cursor', async () => {
+    expect(await resolveQueryParams(event({ cursor: 'bogus.cursor' }))).toBeNull();
+  });
+});
+
+describe('addCursorMeta', () => {
+  test('adds next and previous cursors within the total', async () => {
+    const meta: any = { offset: 25, limit: 25, total_count: 60 };
+    await addCursorMeta(meta, SCOPE, { from: '2024-01-01', format: 'csv' });
+
+    expect(await decodeCursor(meta.next_cursor, SCOPE)).toEqual({
+      scope: SCOPE, query: { from: '2024-01-01' }, offset: 50, limit: 25
+    });
+    expect(await decodeCursor(meta.prev_cursor, SCOPE)).toEqual({
+      scope: SCOPE, query: { from: '2024-01-01' }, offset: 0, limit: 25
+    });
+  });
+
+  test('leaves cursors null on the first and last page', async () => {
+    const meta: any = { offset: 0, limit: 25, total_count: 20 };
+    await addCursorMeta(meta, SCOPE, {});
+    expect(meta.next_cursor).toBeNull();
+    expect(meta.prev_cursor).toBeNull();
+  });
+});
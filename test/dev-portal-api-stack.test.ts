@@ -0,0 +1,98 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as awsLambda from 'aws-cdk-lib/aws-lambda';
+import { DevPortalApiStack } from '../lib/dev-portal-api-stack';
+
+// Bundling the Lambda entries needs esbuild or Docker; the wiring is what is under test
+const { Bundling } = require(path.join(path.dirname(require.resolve('aws-cdk-lib')), 'aws-lambda-nodejs/lib/bundling'));
+Bundling.bundle = () => awsLambda.Code.fromInline('exports.handler = async () => {};');
+
+const synth = (env: { [key: string]: string }): Template => {
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    return Template.fromStack(new DevPortalApiStack(new cdk.App(), 'TestStack'));
+  } finally {
+    process.env = previous;
+  }
+};
+
+// API Gateway methods keyed by 'METHOD /full/path'
+const getMethods = (template: Template): { [route: string]: any } => {
+  const resources = template.findResources('AWS::ApiGateway::Resource');
+  const resourcePath = (id: string): string => {
+    const resource = resources[id];
+    if (!resource) return '';
+    return `${resourcePath(resource.Properties.ParentId.Ref)}/${resource.Properties.PathPart}`;
+  };
+
+  const methods: { [route: string]: any } = {};
+  Object.values(template.findResources('AWS::ApiGateway::Method')).forEach(method => {
+    const resourceId = method.Properties.ResourceId.Ref;
+    methods[`${method.Properties.HttpMethod} ${resourcePath(resourceId) || '/'}`] = method.Properties;
+  });
+  return methods;
+};
+
+describe('DevPortalApiStack with the authorizer and API keys', () => {
+  const template = synth({ AUTH_JWKS_URL: 'https://issuer.example.com/jwks.json', API_KEY_REQUIRED: 'true' });
+  const methods = getMethods(template);
+
+  test('creates a request authorizer', () => {
+    template.resourceCountIs('AWS::ApiGateway::Authorizer', 1);
+    template.hasResourceProperties('AWS::ApiGateway::Authorizer', { Type: 'REQUEST' });
+  });
+
+  test('protects data routes with the authorizer and an API key', () => {
+    ['GET /search', 'GET /search/suggest', 'GET /vessel-insights/vessel-characteristics/{imo}'].forEach(route => {
+      expect(methods[route]).toMatchObject({ AuthorizationType: 'CUSTOM', ApiKeyRequired: true });
+    });
+  });
+
+  test('lets callers manage keys without already holding one', () => {
+    ['GET /account/api-keys', 'POST /account/api-keys', 'DELETE /account/api-keys/{id}'].forEach(route => {
+      expect(methods[route].AuthorizationType).toBe('CUSTOM');
+      expect(methods[route].ApiKeyRequired).toBeFalsy();
+    });
+  });
+
+  test('requires an API key, not a token, on webhook routes', () => {
+    ['POST /webhook-notifications', 'GET /webhook-notifications', 'DELETE /webhook-notifications/cleanup']
+      .forEach(route => {
+        expect(methods[route]).toMatchObject({ AuthorizationType: 'NONE', ApiKeyRequired: true });
+      });
+  });
+
+  test('creates a usage plan per tier and one for webhooks', () => {
+    ['basic', 'standard', 'enterprise', 'webhooks'].forEach(tier => {
+      template.hasResourceProperties('AWS::ApiGateway::UsagePlan', {
+        UsagePlanName: Match.stringLikeRegexp(`-${tier}$`)
+      });
+    });
+    template.hasResourceProperties('AWS::ApiGateway::UsagePlan', {
+      UsagePlanName: Match.stringLikeRegexp('-basic$'),
+      Quota: { Limit: 10000, Period: 'MONTH' }
+    });
+  });
+
+  test('passes the webhook key id to the webhook handler', () => {
+    const [keyId] = Object.keys(template.findResources('AWS::ApiGateway::ApiKey'));
+    template.hasResourceProperties('AWS::ApiGateway::UsagePlanKey', { KeyId: { Ref: keyId } });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ WEBHOOK_API_KEY_ID: { Ref: keyId } }) }
+    });
+  });
+});
+
+describe('DevPortalApiStack without the authorizer', () => {
+  test('leaves routes to the upstream to authenticate', () => {
+    const template = synth({});
+    template.resourceCountIs('AWS::ApiGateway::Authorizer', 0);
+    expect(getMethods(template)['GET /search']).toMatchObject({ AuthorizationType: 'NONE', ApiKeyRequired: false });
+  });
+
+  test('refuses to require API keys', () => {
+    expect(() => synth({ API_KEY_REQUIRED: 'true' })).toThrow('API_KEY_REQUIRED=true needs the request authorizer');
+  });
+});
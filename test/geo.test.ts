@@ -0,0 +1,82 @@
+import {
+  BoundingBox,
+  PolygonalGeometry,
+  distanceToGeometryKm,
+  getBoundingBox,
+  getRadiusBoundingBoxes,
+  haversineKm,
+  pointInBoundingBox
+} from '../lambda/utils/geo';
+
+const square = (west: number, south: number, east: number, north: number): PolygonalGeometry => ({
+  type: 'Polygon',
+  coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+});
+
+const inAnyBox = (boxes: BoundingBox[], position: number[]) => boxes.some(bbox => pointInBoundingBox(position, bbox));
+
+describe('haversineKm', () => {
+  test('measures great-circle distance', () => {
+    // Rotterdam to Antwerp
+    expect(haversineKm([4.4792, 51.9225], [4.4025, 51.2194])).toBeCloseTo(78.4, 0);
+    // One degree of longitude on the equator
+    expect(haversineKm([0, 0], [1, 0])).toBeCloseTo(111.19, 1);
+  });
+
+  test('is short across the antimeridian', () => {
+    expect(haversineKm([179.9, 0], [-179.9, 0])).toBeCloseTo(22.24, 1);
+  });
+});
+
+describe('getBoundingBox', () => {
+  test('covers every polygon of a multipolygon', () => {
+    expect(getBoundingBox({
+      type: 'MultiPolygon',
+      coordinates: [square(0, 0, 1, 1).coordinates as number[][][], square(5, -2, 6, 3).coordinates as number[][][]]
+    })).toEqual([0, -2, 6, 3]);
+  });
+});
+
+describe('getRadiusBoundingBoxes', () => {
+  test('returns one box containing the radius', () => {
+    const boxes = getRadiusBoundingBoxes([4.48, 51.92], 50);
+    expect(boxes).toHaveLength(1);
+    const [west, south, east, north] = boxes[0];
+    expect(haversineKm([4.48, 51.92], [4.48, north])).toBeCloseTo(50, 0);
+    expect(haversineKm([4.48, 51.92], [4.48, south])).toBeCloseTo(50, 0);
+    expect(haversineKm([4.48, 51.92], [east, 51.92])).toBeGreaterThanOrEqual(50);
+    expect(haversineKm([4.48, 51.92], [west, 51.92])).toBeGreaterThanOrEqual(50);
+  });
+
+  test('splits at the antimeridian on either side', () => {
+    const east = getRadiusBoundingBoxes([179.9, -17], 50);
+    expect(east).toHaveLength(2);
+    expect(east[0][2]).toBe(180);
+    expect(east[1][0]).toBe(-180);
+    expect(inAnyBox(east, [-179.9, -17])).toBe(true);
+
+    const west = getRadiusBoundingBoxes([-179.9, -17], 50);
+    expect(west).toHaveLength(2);
+    expect(inAnyBox(west, [179.9, -17])).toBe(true);
+    expect(inAnyBox(west, [170, -17])).toBe(false);
+  });
+
+  test('spans every longitude near the poles', () => {
+    expect(getRadiusBoundingBoxes([0, 89.9], 100)).toEqual([[-180, expect.any(Number), 180, 90]]);
+  });
+});
+
+describe('distanceToGeometryKm', () => {
+  test('is zero inside the geometry', () => {
+    expect(distanceToGeometryKm([0.5, 0.5], square(0, 0, 1, 1))).toBe(0);
+  });
+
+  test('measures to the nearest edge', () => {
+    expect(distanceToGeometryKm([2, 0.5], square(0, 0, 1, 1))).toBeCloseTo(111.19, 0);
+  });
+
+  test('measures across the antimeridian', () => {
+    const fiji = square(177, -19, 180, -16);
+    expect(distanceToGeometryKm([-179.9, -17], fiji)).toBeCloseTo(10.6, 0);
+  });
+});
@@ -0,0 +1,97 @@
+process.env.AUTH_JWKS_URL = 'https://issuer.example.com/.well-known/jwks.json';
+process.env.AUTH_ISSUER = 'https://issuer.example.com/';
+process.env.AUTH_AUDIENCE = 'dev-portal, other-api';
+
+import axios from 'axios';
+import { KeyObject, generateKeyPairSync, sign } from 'crypto';
+import { verifyJwt } from '../lambda/utils/jwt';
+
+jest.mock('axios', () => ({ __esModule: true, default: { get: jest.fn() } }));
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const mockGet = axios.get as jest.Mock;
+mockGet.mockResolvedValue({
+  data: {
+    keys: [
+      { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-key', use: 'sig' },
+      { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-key' }
+    ]
+  }
+});
+
+const NOW = Math.floor(Date.now() / 1000);
+const VALID_CLAIMS = { sub: 'user-1', iss: 'https://issuer.example.com/', aud: 'dev-portal', exp: NOW + 300 };
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (
+  claims: object,
+  header: object = { alg: 'RS256', kid: 'rsa-key' },
+  key: KeyObject = rsa.privateKey
+): string => {
+  const input = `${encode(header)}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(input), key);
+  return `${input}.${signature.toString('base64url')}`;
+};
+
+describe('verifyJwt', () => {
+  test('accepts a valid RS256 token', async () => {
+    await expect(verifyJwt(createToken(VALID_CLAIMS))).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  test('accepts a valid ES256 token', async () => {
+    const input = `${encode({ alg: 'ES256', kid: 'ec-key' })}.${encode(VALID_CLAIMS)}`;
+    const signature = sign('sha256', Buffer.from(input), { key: ec.privateKey, dsaEncoding: 'ieee-p1363' });
+    await expect(verifyJwt(`${input}.${signature.toString('base64url')}`)).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  test('fetches the key set once', async () => {
+    await verifyJwt(createToken(VALID_CLAIMS));
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects unsigned and HMAC tokens', async () => {
+    const unsigned = `${encode({ alg: 'none', kid: 'rsa-key' })}.${encode(VALID_CLAIMS)}.`;
+    await expect(verifyJwt(unsigned)).rejects.toThrow('Unsupported token algorithm: none');
+    await expect(verifyJwt(createToken(VALID_CLAIMS, { alg: 'HS256', kid: 'rsa-key' })))
+      .rejects.toThrow('Unsupported token algorithm: HS256');
+  });
+
+  test('rejects a signature from another key', async () => {
+    await expect(verifyJwt(createToken(VALID_CLAIMS, undefined, other.privateKey))).rejects.toThrow('Invalid token signature');
+  });
+
+  test('rejects a modified payload', async () => {
+    const [header, , signature] = createToken(VALID_CLAIMS).split('.');
+    await expect(verifyJwt(`${header}.${encode({ ...VALID_CLAIMS, sub: 'admin' })}.${signature}`))
+      .rejects.toThrow('Invalid token signature');
+  });
+
+  test('rejects an unknown key id', async () => {
+    await expect(verifyJwt(createToken(VALID_CLAIMS, { alg: 'RS256', kid: 'rotated-key' })))
+      .rejects.toThrow('Unknown signing key: rotated-key');
+  });
+
+  test('checks exp and nbf with clock skew', async () => {
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, exp: NOW - 120 }))).rejects.toThrow('Token has expired');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, exp: undefined }))).rejects.toThrow('Token has expired');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, nbf: NOW + 120 }))).rejects.toThrow('Token is not yet valid');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, exp: NOW - 30, nbf: NOW + 30 }))).resolves.toBeDefined();
+  });
+
+  test('checks issuer and audience', async () => {
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, iss: 'https://evil.example.com/' })))
+      .rejects.toThrow('Unexpected token issuer');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, aud: 'another-api' }))).rejects.toThrow('Unexpected token audience');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, aud: ['another-api', 'other-api'] }))).resolves.toBeDefined();
+  });
+
+  test('rejects malformed tokens and tokens without a subject', async () => {
+    await expect(verifyJwt('not-a-token')).rejects.toThrow('Malformed token');
+    await expect(verifyJwt('a.b.c')).rejects.toThrow('Malformed token');
+    await expect(verifyJwt(createToken({ ...VALID_CLAIMS, sub: '' }))).rejects.toThrow('Token has no subject');
+  });
+});
@@ -0,0 +1,72 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { EndpointConfig, createRouter, matchPath } from '../lambda/utils/proxy';
+
+const echo: EndpointConfig['handler'] = async (event, accessToken) => ({
+  statusCode: 200,
+  body: JSON.stringify({ path: event.path, params: event.pathParameters, accessToken })
+});
+
+const endpoints: EndpointConfig[] = [
+  { method: 'GET', path: '/zones/{id}', handler: echo, requiresAuth: false },
+  { method: 'GET', path: '/zones/containing', handler: echo, requiresAuth: false },
+  { method: 'DELETE', path: '/zones/{id}', handler: echo, requiresAuth: false },
+  { method: 'GET', path: '/voyage-insights/vessel-port-calls/{imo}', handler: echo }
+];
+
+const router = createRouter(endpoints, 'test handler');
+
+const request = (httpMethod: string, path: string, headers: { [name: string]: string } = {}) =>
+  router({ httpMethod, path, headers } as unknown as APIGatewayProxyEvent);
+
+describe('matchPath', () => {
+  test('returns decoded path parameters', () => {
+    expect(matchPath('/zones/{id}', '/zones/Port%20Said')).toEqual({ id: 'Port Said' });
+  });
+
+  test('matches a trailing slash but not extra segments', () => {
+    expect(matchPath('/zones/{id}', '/zones/1/')).toEqual({ id: '1' });
+    expect(matchPath('/zones/{id}', '/zones/1/extra')).toBeNull();
+  });
+
+  test('does not match malformed percent-encoding', () => {
+    expect(matchPath('/zones/{id}', '/zones/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('createRouter', () => {
+  test('routes to the endpoint with its path parameters', async () => {
+    const response = await request('GET', '/zones/abc');
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).params).toEqual({ id: 'abc' });
+  });
+
+  test('prefers static segments over path parameters', async () => {
+    const response = await request('GET', '/zones/containing');
+    expect(JSON.parse(response.body).params).toEqual({});
+  });
+
+  test('answers 405 with the allowed methods for a known path', async () => {
+    const response = await request('POST', '/zones/abc');
+    expect(response.statusCode).toBe(405);
+    expect(response.headers?.Allow).toBe('GET, DELETE');
+  });
+
+  test('answers 404 for unknown and malformed paths', async () => {
+    expect((await request('GET', '/unknown')).statusCode).toBe(404);
+    expect((await request('GET', '/zones/%E0%A4%A')).statusCode).toBe(404);
+  });
+
+  test('requires an access token unless the route is public', async () => {
+    expect((await request('GET', '/voyage-insights/vessel-port-calls/9321483')).statusCode).toBe(401);
+
+    const response = await request('GET', '/voyage-insights/vessel-port-calls/9321483', {
+      Authorization: 'Bearer token-123'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).accessToken).toBe('token-123');
+  });
+
+  test('answers CORS preflight requests without routing', async () => {
+    expect((await request('OPTIONS', '/unknown')).statusCode).toBe(200);
+  });
+});
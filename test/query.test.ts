@@ -0,0 +1,76 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { CollectionQuery, applyCollectionQuery, parseCollectionQuery } from '../lambda/utils/query';
+
+const event = (
+  query: { [key: string]: string },
+  multiValue: { [key: string]: string[] } | null = null
+) => ({
+  queryStringParameters: query,
+  multiValueQueryStringParameters: multiValue
+} as unknown as APIGatewayProxyEvent);
+
+const parse = (query: { [key: string]: string }): CollectionQuery => {
+  const parsed = parseCollectionQuery(event(query));
+  if (!parsed || typeof parsed === 'string') throw new Error(`Unexpected parse result: ${parsed}`);
+  return parsed;
+};
+
+describe('parseCollectionQuery', () => {
+  test('returns null without query options', () => {
+    expect(parseCollectionQuery(event({ limit: '10' }))).toBeNull();
+  });
+
+  test('parses filters separated with semicolons, longest operator first', () => {
+    expect(parse({ filter: 'duration_hours>=12; port.name~Rotter dam;status!=closed' }).filters).toEqual([
+      { field: 'duration_hours', operator: '>=', value: '12' },
+      { field: 'port.name', operator: '~', value: 'Rotter dam' },
+      { field: 'status', operator: '!=', value: 'closed' }
+    ]);
+  });
+
+  test('reads repeated filter parameters', () => {
+    const parsed = parseCollectionQuery(event({ filter: 'b=2' }, { filter: ['a=1', 'b=2'] }));
+    expect(parsed).toMatchObject({ filters: [{ field: 'a' }, { field: 'b' }] });
+  });
+
+  test('parses sort keys and fields', () => {
+    expect(parse({ sort: '-arrival, name', fields: 'name,port.unlocode' })).toEqual({
+      filters: [],
+      sort: [{ field: 'arrival', descending: true }, { field: 'name', descending: false }],
+      fields: ['name', 'port.unlocode']
+    });
+  });
+
+  test('returns a message for an invalid filter', () => {
+    expect(parseCollectionQuery(event({ filter: 'no operator' }))).toMatch(/^Invalid filter expression "no operator"/);
+  });
+});
+
+describe('applyCollectionQuery', () => {
+  const records = [
+    { name: 'Rotterdam', hours: '12', arrival: '2024-03-01T00:00:00Z', port: { unlocode: 'NLRTM' } },
+    { name: 'antwerp', hours: 4, arrival: '2024-01-15T00:00:00Z', port: { unlocode: 'BEANR' } },
+    { name: 'Hamburg', hours: 30, port: { unlocode: 'DEHAM' } }
+  ];
+
+  test('compares numbers numerically and matches substrings case-insensitively', () => {
+    expect(applyCollectionQuery(records, parse({ filter: 'hours>10' })).map(r => r.name)).toEqual(['Rotterdam', 'Hamburg']);
+    expect(applyCollectionQuery(records, parse({ filter: 'name~ANT' })).map(r => r.name)).toEqual(['antwerp']);
+  });
+
+  test('treats a missing field as not equal to anything', () => {
+    expect(applyCollectionQuery(records, parse({ filter: 'arrival!=2024-01-15' })).map(r => r.name))
+      .toEqual(['Rotterdam', 'Hamburg']);
+  });
+
+  test('sorts by dates and strings, with missing values last in either direction', () => {
+    expect(applyCollectionQuery(records, parse({ sort: 'arrival' })).map(r => r.name)).toEqual(['antwerp', 'Rotterdam', 'Hamburg']);
+    expect(applyCollectionQuery(records, parse({ sort: '-arrival' })).map(r => r.name)).toEqual(['Rotterdam', 'antwerp', 'Hamburg']);
+    expect(applyCollectionQuery(records, parse({ sort: 'name' })).map(r => r.name)).toEqual(['antwerp', 'Hamburg', 'Rotterdam']);
+  });
+
+  test('projects nested fields', () => {
+    expect(applyCollectionQuery(records, parse({ fields: 'name,port.unlocode', filter: 'hours=4' })))
+      .toEqual([{ name: 'antwerp', port: { unlocode: 'BEANR' } }]);
+  });
+});
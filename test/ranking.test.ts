@@ -0,0 +1,52 @@
+import { SEARCH_FIELDS } from '../lambda/zone-datasets/datasetIndex';
+import { prepareQuery, prepareSearchFields, rankRecord } from '../lambda/zone-datasets/ranking';
+import { foldText } from '../lambda/utils/text';
+
+// Search fields are stored folded in the dataset index
+const fields = (record: { [field: string]: string }) =>
+  prepareSearchFields(SEARCH_FIELDS.map(name => foldText(record[name] || '')));
+
+const rank = (keyword: string, record: { [field: string]: string }) => rankRecord(prepareQuery(keyword), fields(record));
+
+const ROTTERDAM = { name: 'Rotterdam', unlocode: 'NLRTM', country_common_name: 'Netherlands', zone_type: 'port' };
+const PORT_OF_ROTTERDAM = { name: 'Port of Rotterdam Authority', unlocode: 'NLRTM', zone_type: 'port' };
+const GOTEBORG = { name: 'Göteborg', unlocode: 'SEGOT', country_common_name: 'Sweden', zone_type: 'port' };
+
+describe('rankRecord', () => {
+  test('returns null when no field matches', () => {
+    expect(rank('hamburg', ROTTERDAM)).toBeNull();
+  });
+
+  test('ranks exact over prefix over token matches', () => {
+    const exact = rank('rotterdam', ROTTERDAM)!;
+    const prefix = rank('rotter', ROTTERDAM)!;
+    const token = rank('rotterdam', PORT_OF_ROTTERDAM)!;
+    expect(exact.score).toBeGreaterThan(prefix.score);
+    expect(prefix.score).toBeGreaterThan(token.score);
+  });
+
+  test('prefers an exact UN/LOCODE, ignoring separators', () => {
+    const match = rank('NL RTM', ROTTERDAM)!;
+    expect(match.matched_fields).toEqual(['unlocode']);
+    expect(match.score).toBeGreaterThan(rank('rotterdam', ROTTERDAM)!.score);
+  });
+
+  test('matches names regardless of diacritics', () => {
+    expect(rank('goteborg', GOTEBORG)!.matched_fields).toContain('name');
+    expect(rank('GÖTEBORG', GOTEBORG)!.score).toBe(rank('goteborg', GOTEBORG)!.score);
+  });
+
+  test('tolerates typos in names but not in codes', () => {
+    const fuzzy = rank('roterdam', ROTTERDAM)!;
+    expect(fuzzy.matched_fields).toEqual(['name']);
+    expect(fuzzy.score).toBeLessThan(rank('rotterdam', PORT_OF_ROTTERDAM)!.score);
+    expect(rank('nlrtn', ROTTERDAM)).toBeNull();
+  });
+
+  test('adds a small bonus for each additional matching field', () => {
+    const one = rank('port', { name: 'Port Said' })!;
+    const two = rank('port', { name: 'Port Said', zone_type: 'port' })!;
+    expect(two.matched_fields).toEqual(['name', 'zone_type']);
+    expect(two.score - one.score).toBe(0.5);
+  });
+});
@@ -0,0 +1,63 @@
+process.env.API_KEY_ROLES = JSON.stringify({ 'operator-key': 'operator', 'admin-key': 'Admin', 'typo-key': 'superuser' });
+process.env.ADMIN_KEY_SECRET_ARN = 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:admin-key';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { Principal } from '../lambda/utils/proxy';
+import { hasRole, resolveRole } from '../lambda/utils/roles';
+
+jest.mock('../lambda/utils/secrets', () => ({
+  getSecretString: async () => 'break-glass-key'
+}));
+
+const event = (apiKeyId?: string, headers: { [name: string]: string } = {}): APIGatewayProxyEvent => ({
+  headers,
+  requestContext: { identity: { apiKeyId } }
+} as unknown as APIGatewayProxyEvent);
+
+const principal = (claims: { [claim: string]: any }): Principal => ({ id: 'user-1', tenantId: null, claims });
+
+describe('resolveRole', () => {
+  test('takes the highest role from the token claim', async () => {
+    expect(await resolveRole(event(), principal({ roles: ['viewer', 'operator'] }))).toBe('operator');
+    expect(await resolveRole(event(), principal({ roles: 'admin, viewer' }))).toBe('admin');
+    expect(await resolveRole(event(), principal({ roles: 'OPERATOR' }))).toBe('operator');
+  });
+
+  test('defaults a verified caller without a known role to viewer', async () => {
+    expect(await resolveRole(event(), principal({}))).toBe('viewer');
+    expect(await resolveRole(event(), principal({ roles: ['owner'] }))).toBe('viewer');
+  });
+
+  test('maps API keys through API_KEY_ROLES', async () => {
+    expect(await resolveRole(event('operator-key'), null)).toBe('operator');
+    expect(await resolveRole(event('admin-key'), null)).toBe('admin');
+  });
+
+  test('treats unknown keys and unknown configured roles as viewers', async () => {
+    expect(await resolveRole(event('other-key'), null)).toBe('viewer');
+    expect(await resolveRole(event('typo-key'), null)).toBe('viewer');
+  });
+
+  test('grants admin for the admin key', async () => {
+    expect(await resolveRole(event(undefined, { 'X-Admin-Key': 'break-glass-key' }), null)).toBe('admin');
+    expect(await resolveRole(event(undefined, { 'x-admin-key': 'break-glass-key' }), principal({}))).toBe('admin');
+  });
+
+  test('ignores a wrong admin key', async () => {
+    expect(await resolveRole(event(undefined, { 'X-Admin-Key': 'break-glass-kez' }), null)).toBeNull();
+    expect(await resolveRole(event('operator-key', { 'X-Admin-Key': 'short' }), null)).toBe('operator');
+  });
+
+  test('returns null without any credentials', async () => {
+    expect(await resolveRole(event(), null)).toBeNull();
+  });
+});
+
+describe('hasRole', () => {
+  test('includes every less privileged role', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
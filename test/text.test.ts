@@ -0,0 +1,41 @@
+import { compactText, editDistance, foldText, maxTypos, tokenize } from '../lambda/utils/text';
+
+describe('foldText', () => {
+  test('lowercases and strips diacritics', () => {
+    expect(foldText(' Göteborg ')).toBe('goteborg');
+    expect(foldText('São Tomé')).toBe('sao tome');
+  });
+
+  test('folds letters that do not decompose', () => {
+    expect(foldText('Tromsø')).toBe('tromso');
+    expect(foldText('Straße')).toBe('strasse');
+    expect(foldText('Łódź')).toBe('lodz');
+    expect(foldText('Þórshöfn')).toBe('thorshofn');
+  });
+});
+
+describe('tokenize and compactText', () => {
+  test('split and join folded text on separators', () => {
+    expect(tokenize('Port of Saint-Malo')).toEqual(['port', 'of', 'saint', 'malo']);
+    expect(compactText('NL RTM')).toBe('nlrtm');
+    expect(compactText('nl-rtm')).toBe('nlrtm');
+  });
+});
+
+describe('editDistance', () => {
+  test('counts substitutions, insertions and transpositions', () => {
+    expect(editDistance('rotterdam', 'rotterdam', 2)).toBe(0);
+    expect(editDistance('roterdam', 'rotterdam', 2)).toBe(1);
+    expect(editDistance('rottredam', 'rotterdam', 2)).toBe(1);
+    expect(editDistance('hamburg', 'hamborg', 2)).toBe(1);
+  });
+
+  test('stops at max + 1', () => {
+    expect(editDistance('antwerp', 'rotterdam', 2)).toBe(3);
+    expect(editDistance('abc', 'abcdefgh', 1)).toBe(2);
+  });
+
+  test('allows more typos in longer tokens', () => {
+    expect([maxTypos(3), maxTypos(5), maxTypos(9)]).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,38 @@
+import { detectVesselQuery, isValidImo } from '../lambda/search/vesselSearch';
+
+describe('isValidImo', () => {
+  test('accepts numbers with a valid check digit', () => {
+    expect(isValidImo('9321483')).toBe(true);
+    expect(isValidImo('9074729')).toBe(true);
+  });
+
+  test('rejects a wrong check digit or length', () => {
+    expect(isValidImo('9321484')).toBe(false);
+    expect(isValidImo('932148')).toBe(false);
+    expect(isValidImo('93214830')).toBe(false);
+    expect(isValidImo('93214a3')).toBe(false);
+  });
+});
+
+describe('detectVesselQuery', () => {
+  test('detects IMO numbers with or without a prefix', () => {
+    expect(detectVesselQuery(' 9321483 ')).toEqual({ kind: 'imo', value: '9321483' });
+    expect(detectVesselQuery('IMO 9321483')).toEqual({ kind: 'imo', value: '9321483' });
+    expect(detectVesselQuery('imo:9321483')).toEqual({ kind: 'imo', value: '9321483' });
+  });
+
+  test('returns null for a prefixed number that is not a valid IMO', () => {
+    expect(detectVesselQuery('IMO 9321484')).toBeNull();
+  });
+
+  test('detects MMSI numbers and call signs', () => {
+    expect(detectVesselQuery('244660000')).toEqual({ kind: 'mmsi', value: '244660000' });
+    expect(detectVesselQuery('pbia9')).toEqual({ kind: 'call_sign', value: 'PBIA9' });
+  });
+
+  test('treats anything else as a name', () => {
+    expect(detectVesselQuery('Emma Maersk')).toEqual({ kind: 'name', value: 'Emma Maersk' });
+    expect(detectVesselQuery('MAERSK')).toEqual({ kind: 'name', value: 'MAERSK' });
+    expect(detectVesselQuery('9321484')).toEqual({ kind: 'name', value: '9321484' });
+  });
+});